@@ -0,0 +1,306 @@
+#!/usr/bin/env node
+// Local stand-in for the Daydream API, for offline dev and CI (no dependencies, Node 18+).
+//
+//   npm run mock:daydream            # http://localhost:8787
+//   PORT=9000 WARMUP_MS=0 node scripts/mock-daydream-server.mjs
+//
+// Implements the parts of the API that DaydreamCanvas uses:
+// - POST/GET /v1/streams, GET/PATCH/DELETE /v1/streams/:id, GET /v1/streams/:id/status
+// - WHIP ingest at /whip/:id (offer POST, trickle ICE PATCH, DELETE)
+//
+// The server doesn't do any media itself: each WHIP offer is handed to a loopback peer running in
+// the browser (MockDaydreamClient), which answers it and produces the filtered "output" stream.
+// The loopback peer picks offers up via GET /loopback/next and posts answers to /loopback/:sid/answer.
+
+import { createServer } from 'node:http';
+import { randomUUID } from 'node:crypto';
+
+const PORT = Number(process.env.PORT ?? 8787);
+const WARMUP_MS = Number(process.env.WARMUP_MS ?? 2000); // time from publish to ONLINE, like model loading
+const ANSWER_TIMEOUT_MS = 15000; // WHIP offers fail with 503 if no loopback peer answers in time
+const LONG_POLL_MS = 20000;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, content-type, if-match',
+  'Access-Control-Allow-Methods': 'GET, POST, PATCH, DELETE, OPTIONS',
+  'Access-Control-Expose-Headers': 'location, etag',
+};
+
+const streams = new Map(); // stream id -> stream
+const sessions = new Map(); // WHIP session id -> session
+const pendingOffers = []; // session ids waiting for a loopback peer
+const offerWaiters = new Set(); // loopback long-polls waiting for an offer
+
+function send(res, status, body, headers = {}) {
+  const isText = typeof body === 'string';
+  res.writeHead(status, {
+    ...corsHeaders,
+    ...(body === undefined ? {} : { 'Content-Type': isText ? 'application/sdp' : 'application/json' }),
+    ...headers,
+  });
+  res.end(body === undefined ? undefined : isText ? body : JSON.stringify(body));
+}
+
+async function readBody(req) {
+  const chunks = [];
+  for await (const chunk of req) chunks.push(chunk);
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+async function readJson(req) {
+  const text = await readBody(req);
+  try {
+    return text ? JSON.parse(text) : {};
+  } catch {
+    return null;
+  }
+}
+
+function origin(req) {
+  return `http://${req.headers.host ?? `localhost:${PORT}`}`;
+}
+
+function streamJson(req, stream) {
+  return {
+    id: stream.id,
+    pipeline: stream.pipeline,
+    params: stream.params,
+    output_playback_id: stream.output_playback_id,
+    whip_url: `${origin(req)}/whip/${stream.id}`,
+    created_at: stream.created_at,
+  };
+}
+
+// Same shape as the API: ONLINE with output fps once a published session has warmed up
+function statusJson(stream) {
+  const session = stream.sessionId ? sessions.get(stream.sessionId) : null;
+  const online = !!session?.answeredAt && !session.ended && Date.now() - session.answeredAt >= WARMUP_MS;
+  return {
+    success: true,
+    data: {
+      state: online ? 'ONLINE' : 'OFFLINE',
+      inference_status: {
+        fps: online ? 30 : 0,
+        last_output_time: online ? Date.now() : null,
+        last_error: null,
+      },
+      gateway_status: { whep_url: null },
+    },
+  };
+}
+
+// Trickle ICE fragment (RFC 8840) -> [{ candidate, sdpMid }]
+function parseCandidates(fragment) {
+  const candidates = [];
+  let mid = null;
+  for (const line of fragment.split(/\r?\n/)) {
+    if (line.startsWith('m=')) mid = null;
+    if (line.startsWith('a=mid:')) mid = line.slice('a=mid:'.length).trim();
+    if (line.startsWith('a=candidate:')) candidates.push({ candidate: line.slice(2), sdpMid: mid });
+  }
+  return candidates;
+}
+
+function dispatchOffers() {
+  while (pendingOffers.length > 0 && offerWaiters.size > 0) {
+    const sessionId = pendingOffers.shift();
+    const session = sessions.get(sessionId);
+    if (!session || session.ended) continue;
+    const [waiter] = offerWaiters;
+    offerWaiters.delete(waiter);
+    waiter(session);
+  }
+}
+
+function offerJson(session) {
+  const stream = streams.get(session.streamId);
+  return {
+    sessionId: session.id,
+    streamId: session.streamId,
+    playbackId: stream?.output_playback_id ?? null,
+    params: stream?.params ?? {},
+    sdp: session.offer,
+  };
+}
+
+function requireAuth(req, res) {
+  if (/^Bearer \S+/.test(req.headers.authorization ?? '')) return true;
+  send(res, 401, { error: 'Unauthorized', message: 'Missing bearer token (any value works with the mock)' });
+  return false;
+}
+
+async function handleApi(req, res, url, parts) {
+  if (!requireAuth(req, res)) return;
+  const [, , id, sub] = parts; // ['v1', 'streams', id?, 'status'?]
+
+  if (!id && req.method === 'GET') {
+    const limit = Number(url.searchParams.get('limit') ?? 20);
+    const offset = Number(url.searchParams.get('offset') ?? 0);
+    const newestFirst = [...streams.values()].reverse();
+    return send(res, 200, { data: newestFirst.slice(offset, offset + limit).map(stream => streamJson(req, stream)) });
+  }
+
+  if (!id && req.method === 'POST') {
+    const body = await readJson(req);
+    if (!body) return send(res, 400, { error: 'Invalid JSON body' });
+    const stream = {
+      id: `str_mock_${randomUUID().slice(0, 8)}`,
+      pipeline: body.pipeline ?? 'streamdiffusion',
+      params: body.params ?? {},
+      output_playback_id: `mock${randomUUID().replace(/-/g, '').slice(0, 12)}`,
+      created_at: new Date().toISOString(),
+      sessionId: null,
+    };
+    streams.set(stream.id, stream);
+    console.log(`[MOCK] Created stream ${stream.id} (${stream.pipeline})`);
+    return send(res, 201, streamJson(req, stream));
+  }
+
+  const stream = id ? streams.get(id) : null;
+  if (!stream) return send(res, 404, { error: 'Stream not found' });
+
+  if (sub === 'status' && req.method === 'GET') return send(res, 200, statusJson(stream));
+  if (sub) return send(res, 404, { error: 'Not found' });
+
+  if (req.method === 'GET') return send(res, 200, streamJson(req, stream));
+  if (req.method === 'PATCH') {
+    const body = await readJson(req);
+    if (!body || typeof body.params !== 'object') return send(res, 400, { error: 'params is required' });
+    // Partial updates: fields not sent keep their value
+    stream.params = { ...stream.params, ...body.params };
+    console.log(`[MOCK] Updated ${stream.id}:`, JSON.stringify(body.params));
+    return send(res, 200, streamJson(req, stream));
+  }
+  if (req.method === 'DELETE') {
+    streams.delete(stream.id);
+    // Ends the loopback output too
+    const session = stream.sessionId ? sessions.get(stream.sessionId) : null;
+    if (session) session.ended = true;
+    console.log(`[MOCK] Deleted stream ${stream.id}`);
+    return send(res, 200, { success: true });
+  }
+  send(res, 405, { error: 'Method not allowed' });
+}
+
+async function handleWhip(req, res, parts) {
+  const [, streamId, sessionId] = parts; // ['whip', streamId, sessionId?]
+  const stream = streams.get(streamId);
+  if (!stream) return send(res, 404, { error: 'Stream not found' });
+
+  if (!sessionId && req.method === 'POST') {
+    const session = {
+      id: randomUUID(),
+      streamId,
+      offer: await readBody(req),
+      answeredAt: null,
+      candidates: [],
+      ended: false,
+    };
+    sessions.set(session.id, session);
+    stream.sessionId = session.id;
+    pendingOffers.push(session.id);
+    dispatchOffers();
+
+    const answer = await new Promise((resolve) => {
+      session.resolveAnswer = resolve;
+      setTimeout(() => resolve(null), ANSWER_TIMEOUT_MS);
+    });
+    if (!answer) {
+      session.ended = true;
+      return send(res, 503, { error: 'No loopback peer answered (is the app running with MockDaydreamClient?)' });
+    }
+    session.answeredAt = Date.now();
+    console.log(`[MOCK] WHIP session ${session.id} publishing to ${streamId}`);
+    return send(res, 201, answer, {
+      Location: `/whip/${streamId}/${session.id}`,
+      ETag: `"${session.id}"`,
+    });
+  }
+
+  const session = sessions.get(sessionId);
+  if (!session || session.streamId !== streamId) return send(res, 404, { error: 'Session not found' });
+
+  if (req.method === 'PATCH') {
+    const fragment = await readBody(req);
+    // ICE restarts aren't supported; the publisher falls back to a local restart
+    if (req.headers['if-match'] === '*') return send(res, 405, { error: 'ICE restart not supported' });
+    session.candidates.push(...parseCandidates(fragment));
+    return send(res, 204);
+  }
+  if (req.method === 'DELETE') {
+    session.ended = true;
+    console.log(`[MOCK] WHIP session ${session.id} closed`);
+    return send(res, 200);
+  }
+  send(res, 405, { error: 'Method not allowed' });
+}
+
+async function handleLoopback(req, res, parts) {
+  const [, sessionId, sub] = parts; // ['loopback', 'next' | sessionId, 'answer'?]
+
+  if (sessionId === 'next' && req.method === 'GET') {
+    const session = await new Promise((resolve) => {
+      const waiter = (s) => {
+        clearTimeout(timer);
+        resolve(s);
+      };
+      const timer = setTimeout(() => {
+        offerWaiters.delete(waiter);
+        resolve(null);
+      }, LONG_POLL_MS);
+      offerWaiters.add(waiter);
+      res.on('close', () => {
+        if (!offerWaiters.has(waiter)) return;
+        offerWaiters.delete(waiter);
+        clearTimeout(timer);
+        resolve(null);
+      });
+      dispatchOffers();
+    });
+    if (!session) return send(res, 204);
+    if (res.destroyed) {
+      // The poll was dropped while the offer was handed over, give it to the next one
+      pendingOffers.unshift(session.id);
+      return;
+    }
+    return send(res, 200, offerJson(session));
+  }
+
+  const session = sessions.get(sessionId);
+  if (!session) return send(res, 404, { error: 'Session not found' });
+
+  if (sub === 'answer' && req.method === 'POST') {
+    const body = await readJson(req);
+    if (!body?.sdp) return send(res, 400, { error: 'sdp is required' });
+    session.resolveAnswer?.(body.sdp);
+    return send(res, 204);
+  }
+  // Trickled publisher candidates (drained) and whether the publisher has gone away
+  if (!sub && req.method === 'GET') {
+    const candidates = session.candidates;
+    session.candidates = [];
+    return send(res, 200, { candidates, ended: session.ended });
+  }
+  send(res, 405, { error: 'Method not allowed' });
+}
+
+const server = createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204);
+  const url = new URL(req.url ?? '/', origin(req));
+  const parts = url.pathname.split('/').filter(Boolean);
+
+  try {
+    if (parts[0] === 'v1' && parts[1] === 'streams') return await handleApi(req, res, url, parts);
+    if (parts[0] === 'whip') return await handleWhip(req, res, parts);
+    if (parts[0] === 'loopback') return await handleLoopback(req, res, parts);
+    send(res, 404, { error: 'Not found' });
+  } catch (error) {
+    console.error('[MOCK] Request error:', error);
+    if (!res.headersSent) send(res, 500, { error: error instanceof Error ? error.message : String(error) });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`[MOCK] Daydream mock listening on http://localhost:${PORT}`);
+});
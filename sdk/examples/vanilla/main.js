@@ -0,0 +1,57 @@
+// Camera in, diffusion out, no framework. Build the SDK first (npm run sdk at the repo root),
+// then serve the sdk/ directory, e.g. `npx serve sdk` and open /examples/vanilla/.
+import { DaydreamPublisher, DEFAULT_STREAMDIFFUSION_PARAMS } from '../../dist/index.js';
+
+// The Daydream API key must stay on a server: this client calls your own backend, which forwards
+// to POST /v1/streams and PATCH /v1/streams/:id (see supabase/functions/daydream-stream and daydream-prompt)
+const API_BASE = '/api/daydream';
+
+const client = {
+  async createStream(pipeline, initialParams) {
+    const res = await fetch(`${API_BASE}/streams`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ pipeline, pipelineParams: initialParams }),
+    });
+    if (!res.ok) throw new Error(`createStream failed: ${res.status}`);
+    return res.json(); // { id, output_playback_id, whip_url }
+  },
+  async updatePrompts(streamId, params, pipeline) {
+    const res = await fetch(`${API_BASE}/streams/${streamId}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ pipeline, params }),
+    });
+    if (!res.ok) throw new Error(`updatePrompts failed: ${res.status}`);
+  },
+};
+
+const promptInput = document.getElementById('prompt');
+const statusLabel = document.getElementById('status');
+const params = () => ({ ...DEFAULT_STREAMDIFFUSION_PARAMS, prompt: promptInput.value });
+
+const publisher = new DaydreamPublisher(document.getElementById('input'), {
+  client,
+  params: params(),
+  videoSource: { type: 'camera', facingMode: 'user' },
+  onStatusChange: (status) => {
+    statusLabel.textContent = status;
+  },
+  onReady: ({ playbackId }) => {
+    document.getElementById('output').src = `https://lvpr.tv/?v=${playbackId}&lowLatency=force&mute=true`;
+  },
+  onError: (error) => {
+    console.error(`${error.name}: ${error.message}`);
+  },
+});
+
+document.getElementById('start').addEventListener('click', () => {
+  publisher.start().catch(() => {
+    // Reported via onError
+  });
+});
+document.getElementById('stop').addEventListener('click', () => {
+  void publisher.stop();
+});
+// Params updates are queued and coalesced, so this can fire on every keystroke
+promptInput.addEventListener('input', () => publisher.setParams(params()));
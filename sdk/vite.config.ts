@@ -0,0 +1,71 @@
+import { defineConfig } from "vite";
+import react from "@vitejs/plugin-react-swc";
+import dts from "vite-plugin-dts";
+import path from "path";
+import pkg from "./package.json";
+
+// Library build of the Daydream SDK (npm run sdk): ESM + CJS bundles and .d.ts files in sdk/dist.
+// Dependencies and peer dependencies stay external; the render worker is emitted as its own chunk.
+const external = [...Object.keys(pkg.dependencies), ...Object.keys(pkg.peerDependencies)];
+
+export default defineConfig({
+  base: "./", // the worker chunk URL resolves against the importing module, not the host page
+  publicDir: false,
+  plugins: [
+    react(),
+    dts({
+      tsconfigPath: path.resolve(__dirname, "../tsconfig.app.json"),
+      entryRoot: path.resolve(__dirname, "../src"),
+      // Only what src/sdk/*.ts reaches: other src/lib modules use the app's Supabase client and env
+      include: [
+        "src/sdk",
+        "src/components/DaydreamCanvas.tsx",
+        "src/components/DaydreamOutputPlayer.tsx",
+        ...[
+          "audioGraph",
+          "camera",
+          "compositor",
+          "daydreamCanvasElement",
+          "daydreamClient",
+          "daydreamPublisher",
+          "edgeFunctionClient",
+          "encoder",
+          "errors",
+          "frameProcessors",
+          "pipelines",
+          "publishStats",
+          "render",
+          "renderWorker",
+          "retry",
+          "streamStatus",
+          "whip",
+        ].map((name) => `src/lib/${name}.ts`),
+      ],
+    }),
+  ],
+  resolve: {
+    alias: {
+      "@": path.resolve(__dirname, "../src"),
+    },
+  },
+  worker: {
+    format: "es",
+  },
+  build: {
+    outDir: path.resolve(__dirname, "dist"),
+    emptyOutDir: true,
+    sourcemap: true,
+    lib: {
+      entry: {
+        index: path.resolve(__dirname, "../src/sdk/index.ts"),
+        element: path.resolve(__dirname, "../src/sdk/element.ts"),
+        react: path.resolve(__dirname, "../src/sdk/react.ts"),
+      },
+      formats: ["es", "cjs"],
+      fileName: (format, entryName) => `${entryName}.${format === "es" ? "js" : "cjs"}`,
+    },
+    rollupOptions: {
+      external: (id) => external.some((dep) => id === dep || id.startsWith(`${dep}/`)),
+    },
+  },
+});
@@ -0,0 +1,78 @@
+import { useEffect, useState } from "react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  DEFAULT_DAYDREAM_ENVIRONMENT,
+  fetchDaydreamEnvironments,
+  getDaydreamEnvironment,
+  setDaydreamEnvironment,
+  type DaydreamEnvironmentOption,
+} from "@/lib/daydreamEnvironment";
+import { cn } from "@/lib/utils";
+
+interface DaydreamEnvironmentPickerProps {
+  className?: string;
+  onChange?: (environment: string) => void; // the caller replaces streams created in the previous one
+}
+
+/**
+ * Daydream environment select for staff, shown before streaming. Renders nothing unless the
+ * server offers the user more than prod; a stored environment they can't use is reset to prod
+ */
+export function DaydreamEnvironmentPicker({ className, onChange }: DaydreamEnvironmentPickerProps) {
+  const [environments, setEnvironments] = useState<DaydreamEnvironmentOption[]>([]);
+  const [environment, setEnvironment] = useState(getDaydreamEnvironment);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchDaydreamEnvironments()
+      .then((options) => {
+        if (cancelled) return;
+        setEnvironments(options);
+        if (!options.some((option) => option.name === getDaydreamEnvironment())) {
+          setDaydreamEnvironment(DEFAULT_DAYDREAM_ENVIRONMENT);
+          setEnvironment(DEFAULT_DAYDREAM_ENVIRONMENT);
+          onChange?.(DEFAULT_DAYDREAM_ENVIRONMENT);
+        }
+      })
+      .catch(() => {
+        // Keep the current environment, the edge functions still enforce access
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [onChange]);
+
+  if (environments.length <= 1) return null;
+
+  const handleChange = (name: string) => {
+    setDaydreamEnvironment(name);
+    setEnvironment(name);
+    onChange?.(name);
+  };
+
+  return (
+    <div className={cn("bg-neutral-950 rounded-3xl p-5 border border-neutral-800 shadow-inner", className)}>
+      <label className="text-sm font-medium mb-2 block text-neutral-300">
+        Daydream environment
+      </label>
+      <Select value={environment} onValueChange={handleChange}>
+        <SelectTrigger className="bg-neutral-950 border-neutral-800 focus:border-neutral-600 focus:ring-0 text-neutral-100">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {environments.map((option) => (
+            <SelectItem key={option.name} value={option.name}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { useMemo } from "react";
+import { useCallback, useMemo } from "react";
 import { Loader2 } from "lucide-react";
 import * as Player from "@livepeer/react/player";
 
@@ -6,12 +6,20 @@ interface DaydreamOutputPlayerProps {
   playbackUrl?: string | null;
   showSlowLoadingMessage?: boolean;
   style?: React.CSSProperties;
+  width?: number; // stream output size, default 512x512 (match DaydreamCanvas for portrait/landscape)
+  height?: number;
+  fit?: "cover" | "contain"; // how the video fills the player, default cover
+  mediaStream?: MediaStream | null; // local output (e.g. MockDaydreamClient), played instead of playbackUrl
 }
 
 export function DaydreamOutputPlayer({
   playbackUrl,
   showSlowLoadingMessage = false,
-  style = {}
+  style = {},
+  width = 512,
+  height = 512,
+  fit = "cover",
+  mediaStream,
 }: DaydreamOutputPlayerProps) {
   // Construct src object internally
   const src = useMemo(() => {
@@ -22,11 +30,31 @@ export function DaydreamOutputPlayer({
         type: "webrtc" as const,
         src: playbackUrl,
         mime: "video/h264" as const,
-        width: 512,
-        height: 512,
+        width,
+        height,
       },
     ];
-  }, [playbackUrl]);
+  }, [playbackUrl, width, height]);
+
+  const setVideoRef = useCallback(
+    (video: HTMLVideoElement | null) => {
+      if (video && video.srcObject !== mediaStream) video.srcObject = mediaStream ?? null;
+    },
+    [mediaStream]
+  );
+
+  if (mediaStream) {
+    return (
+      <video
+        ref={setVideoRef}
+        className="w-full h-full"
+        style={{ width: "100%", height: "100%", objectFit: fit, ...style }}
+        autoPlay
+        muted
+        playsInline
+      />
+    );
+  }
 
   if (!playbackUrl) {
     return (
@@ -51,7 +79,7 @@ export function DaydreamOutputPlayer({
           style={{
             width: "100%",
             height: "100%",
-            objectFit: "cover",
+            objectFit: fit,
           }}
         />
         <Player.LoadingIndicator>
@@ -8,9 +8,20 @@ import {
   PopoverTrigger,
   PopoverContent,
 } from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { RefreshCw, ImageOff } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import type { StreamDiffusionParams } from "@/components/DaydreamCanvas";
+import { ParamValidationError } from "@/lib/errors";
+import { getPipeline, validatePipelineParams } from "@/lib/pipelines";
+import { fetchPipelineCatalog, type PipelineCatalogEntry } from "@/lib/pipelineCatalog";
+import { PipelineParamsForm } from "@/components/PipelineParamsForm";
 import prompts from "@/components/prompts";
 
 const TEXTURES = [
@@ -70,8 +81,9 @@ interface DiffusionParamsProps {
   cameraType: "user" | "environment" | null;
   brewParams: BrewParams;
   showAdvancedControls?: boolean;
+  allowPipelineChange?: boolean; // off while streaming
   onBrewParamsChange: (brewParams: BrewParams) => void;
-  handleStreamDiffusionParams: (streamParams: StreamDiffusionParams) => void;
+  handleStreamDiffusionParams: (streamParams: object) => void; // params of the selected pipeline, as the canvas takes them
   onError?: (error: Error) => void;
   onJsonValidityChange?: (isValid: boolean) => void;
 }
@@ -107,12 +119,13 @@ export function DiffusionParams({
   cameraType,
   brewParams,
   showAdvancedControls = false,
+  allowPipelineChange = true,
   onBrewParamsChange,
   handleStreamDiffusionParams,
   onError,
   onJsonValidityChange,
 }: DiffusionParamsProps) {
-  const [searchParams] = useSearchParams();
+  const [searchParams, setSearchParams] = useSearchParams();
   const [texturePopoverOpen, setTexturePopoverOpen] = useState(false);
   const { toast } = useToast();
 
@@ -132,6 +145,37 @@ export function DiffusionParams({
   const customParamsJson = brewParams.customJson;
   const pipeline = searchParams.get('pipeline') || 'streamdiffusion';
   const [isJsonValid, setIsJsonValid] = useState(true);
+  const [jsonError, setJsonError] = useState<string | null>(null);
+  const [catalog, setCatalog] = useState<PipelineCatalogEntry[] | null>(null);
+  const [showJsonEditor, setShowJsonEditor] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchPipelineCatalog()
+      .then((pipelines) => {
+        if (!cancelled) setCatalog(pipelines);
+      })
+      .catch(() => {
+        // Without the catalog the current pipeline still works, edited as JSON
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const catalogEntry = catalog?.find((entry) => entry.id === pipeline);
+
+  // Form values for the generated controls, null when the JSON isn't an object the form can bind to
+  const customParams = useMemo(() => {
+    try {
+      const parsed = JSON.parse(customParamsJson ?? "");
+      return parsed && typeof parsed === "object" && !Array.isArray(parsed)
+        ? (parsed as Record<string, unknown>)
+        : null;
+    } catch {
+      return null;
+    }
+  }, [customParamsJson]);
 
   useEffect(() => {
     onJsonValidityChange?.(isJsonValid);
@@ -140,11 +184,13 @@ export function DiffusionParams({
   useEffect(() => {
     if (pipeline !== 'streamdiffusion') {
         try {
-            const parsed = JSON.parse(customParamsJson);
+            const parsed = validatePipelineParams(getPipeline(pipeline), JSON.parse(customParamsJson));
             setIsJsonValid(true);
-            handleStreamDiffusionParams(parsed as unknown as StreamDiffusionParams);
+            setJsonError(null);
+            handleStreamDiffusionParams(parsed);
         } catch (e) {
             setIsJsonValid(false);
+            setJsonError(e instanceof ParamValidationError ? e.issues.join(', ') : 'Invalid JSON');
         }
         return;
     }
@@ -261,16 +307,80 @@ export function DiffusionParams({
     updateBrewParams({ customJson: e.target.value });
   }, [updateBrewParams]);
 
+  const handleCustomParamsChange = useCallback((params: Record<string, unknown>) => {
+    updateBrewParams({ customJson: JSON.stringify(params, null, 2) });
+  }, [updateBrewParams]);
+
+  // Picking a pipeline starts over from its defaults; streamdiffusion keeps using the brew controls
+  const handlePipelineChange = useCallback((id: string) => {
+    const entry = catalog?.find((e) => e.id === id);
+    setSearchParams((prev) => {
+      const next = new URLSearchParams(prev);
+      if (id === "streamdiffusion") {
+        next.delete("pipeline");
+      } else {
+        next.set("pipeline", id);
+      }
+      return next;
+    }, { replace: true });
+    if (id !== "streamdiffusion" && entry) {
+      updateBrewParams({ customJson: JSON.stringify(entry.defaults, null, 2) });
+    }
+    // Params valid for the new pipeline in the same render as the pipeline change, since the canvas
+    // creates its new stream with them (the effect above refines them right after)
+    handleStreamDiffusionParams({ ...getPipeline(id).defaults, ...entry?.defaults });
+    setShowJsonEditor(false);
+  }, [catalog, setSearchParams, updateBrewParams, handleStreamDiffusionParams]);
+
+  const pipelinePicker = allowPipelineChange && catalog && catalog.length > 0 && (
+    <div>
+      <label className="text-sm font-medium mb-2 block text-neutral-300">
+        Pipeline
+      </label>
+      <Select value={pipeline} onValueChange={handlePipelineChange}>
+        <SelectTrigger className="bg-neutral-950 border-neutral-800 focus:border-neutral-600 focus:ring-0 text-neutral-100">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {catalog.map((entry) => (
+            <SelectItem key={entry.id} value={entry.id}>
+              {entry.label}
+            </SelectItem>
+          ))}
+          {!catalogEntry && (
+            <SelectItem value={pipeline}>
+              <span className="font-mono">{pipeline}</span>
+            </SelectItem>
+          )}
+        </SelectContent>
+      </Select>
+      {catalogEntry?.description && (
+        <p className="mt-1 text-xs text-neutral-500">{catalogEntry.description}</p>
+      )}
+    </div>
+  );
+
   if (pipeline !== 'streamdiffusion') {
+      const showForm = !!catalogEntry && !!customParams && !showJsonEditor;
       return (
         <div className="bg-neutral-950 rounded-3xl p-5 border border-neutral-800 space-y-4 shadow-inner">
+            {pipelinePicker}
+            {showForm ? (
+              <PipelineParamsForm
+                schema={catalogEntry.params}
+                value={customParams}
+                onChange={handleCustomParamsChange}
+              />
+            ) : (
             <div>
                 <label className="text-sm font-medium mb-2 block text-neutral-300">
                   Custom Pipeline Configuration (JSON)
                 </label>
-                <div className="mb-2 text-xs text-neutral-400">
-                    Pipeline: <span className="font-mono text-neutral-200">{pipeline}</span>
-                </div>
+                {!pipelinePicker && (
+                  <div className="mb-2 text-xs text-neutral-400">
+                      Pipeline: <span className="font-mono text-neutral-200">{pipeline}</span>
+                  </div>
+                )}
                 <Textarea
                     value={customParamsJson}
                     onChange={handleCustomJsonChange}
@@ -282,15 +392,27 @@ export function DiffusionParams({
                     }`}
                 />
                 {!isJsonValid && (
-                  <p className="mt-1 text-xs text-red-400">Invalid JSON</p>
+                  <p className="mt-1 text-xs text-red-400">{jsonError ?? 'Invalid JSON'}</p>
                 )}
             </div>
+            )}
+            {catalogEntry && customParams && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setShowJsonEditor((show) => !show)}
+                className="text-xs text-neutral-400 hover:text-neutral-200 hover:bg-neutral-900"
+              >
+                {showJsonEditor ? "Back to controls" : "Edit JSON"}
+              </Button>
+            )}
         </div>
       );
   }
 
   return (
     <div className="bg-neutral-950 rounded-3xl p-5 border border-neutral-800 space-y-4 shadow-inner">
+      {pipelinePicker}
       <div>
         <label className="text-sm font-medium mb-2 block text-neutral-300">
           Prompt
@@ -0,0 +1,207 @@
+import { useState } from "react";
+import { ImageOff } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  getParamControl,
+  getParamOptions,
+  getParamStep,
+  type ParamSchema,
+} from "@/lib/pipelineCatalog";
+
+type ParamsObject = Record<string, unknown>;
+
+interface PipelineParamsFormProps {
+  schema: ParamSchema; // object schema from the pipeline catalog
+  value: ParamsObject;
+  onChange: (value: ParamsObject) => void;
+}
+
+const fieldClassName =
+  "bg-neutral-950 border-neutral-800 focus:border-neutral-600 focus:ring-0 text-neutral-100 placeholder:text-neutral-500";
+
+// Copy of the params with one field set, or removed when cleared
+function withField(value: ParamsObject, key: string, next: unknown): ParamsObject {
+  const updated = { ...value };
+  if (next === undefined) {
+    delete updated[key];
+  } else {
+    updated[key] = next;
+  }
+  return updated;
+}
+
+/**
+ * Form controls generated from a pipeline's param schema (see src/lib/pipelineCatalog.ts).
+ * Fields the form can't edit are left as they are in `value`
+ */
+export function PipelineParamsForm({ schema, value, onChange }: PipelineParamsFormProps) {
+  return (
+    <div className="space-y-4">
+      {Object.entries(schema.properties ?? {}).map(([key, field]) => (
+        <ParamField
+          key={key}
+          name={key}
+          schema={field}
+          value={value[key]}
+          onChange={(next) => onChange(withField(value, key, next))}
+        />
+      ))}
+    </div>
+  );
+}
+
+interface ParamFieldProps {
+  name: string;
+  schema: ParamSchema;
+  value: unknown;
+  onChange: (value: unknown) => void;
+}
+
+function ParamField({ name, schema, value, onChange }: ParamFieldProps) {
+  const control = getParamControl(schema);
+  if (!control) return null;
+
+  const label = schema.title ?? name;
+  const current = value ?? schema.default;
+
+  if (control === "group") {
+    return (
+      <fieldset className="rounded-2xl border border-neutral-800 p-4 space-y-4">
+        <legend className="px-1 text-sm font-medium text-neutral-300">{label}</legend>
+        <PipelineParamsForm
+          schema={schema}
+          value={(current as ParamsObject) ?? {}}
+          onChange={onChange}
+        />
+      </fieldset>
+    );
+  }
+
+  if (control === "switch") {
+    return (
+      <div className="flex items-center justify-between">
+        <label className="text-sm font-medium text-neutral-300">{label}</label>
+        <Switch checked={!!current} onCheckedChange={onChange} />
+      </div>
+    );
+  }
+
+  if (control === "slider") {
+    const number = typeof current === "number" ? current : schema.minimum!;
+    const step = getParamStep(schema);
+    return (
+      <div>
+        <label className="text-sm font-medium mb-2 block text-neutral-300">
+          {label}: {schema.type === "integer" ? number : number.toFixed(2)}
+        </label>
+        <Slider
+          value={[number]}
+          onValueChange={(val) => onChange(val[0])}
+          min={schema.minimum}
+          max={schema.maximum}
+          step={step}
+          className="w-full accent-neutral-400 h-6"
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <label className="text-sm font-medium mb-2 block text-neutral-300">{label}</label>
+      {control === "select" && (
+        <SelectField schema={schema} value={current} onChange={onChange} />
+      )}
+      {control === "number" && (
+        <Input
+          type="number"
+          value={typeof current === "number" ? current : ""}
+          min={schema.minimum}
+          max={schema.maximum}
+          step={schema.multipleOf ?? (schema.type === "integer" ? 1 : "any")}
+          onChange={(e) => onChange(e.target.value === "" ? undefined : Number(e.target.value))}
+          className={fieldClassName}
+        />
+      )}
+      {control === "text" && (
+        <Input
+          value={typeof current === "string" ? current : ""}
+          onChange={(e) => onChange(e.target.value)}
+          className={fieldClassName}
+        />
+      )}
+      {control === "textarea" && (
+        <Textarea
+          value={typeof current === "string" ? current : ""}
+          onChange={(e) => onChange(e.target.value)}
+          className={`${fieldClassName} min-h-[60px] resize-none`}
+          rows={2}
+        />
+      )}
+      {control === "image" && (
+        <ImageField value={typeof current === "string" ? current : ""} onChange={onChange} />
+      )}
+      {schema.description && (
+        <p className="mt-1 text-xs text-neutral-500">{schema.description}</p>
+      )}
+    </div>
+  );
+}
+
+function SelectField({ schema, value, onChange }: Omit<ParamFieldProps, "name">) {
+  const options = getParamOptions(schema);
+  return (
+    <Select
+      value={value === undefined ? undefined : String(value)}
+      // Options keep their type (e.g. numbers), Select only deals in strings
+      onValueChange={(selected) => onChange(options.find((o) => String(o.value) === selected)?.value)}
+    >
+      <SelectTrigger className={fieldClassName}>
+        <SelectValue placeholder="Select..." />
+      </SelectTrigger>
+      <SelectContent>
+        {options.map((option) => (
+          <SelectItem key={String(option.value)} value={String(option.value)}>
+            {option.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+// Image URL with a preview; an empty URL removes the field
+function ImageField({ value, onChange }: { value: string; onChange: (value: unknown) => void }) {
+  const [failed, setFailed] = useState(false);
+  return (
+    <div className="flex items-center gap-3">
+      <div className="w-12 h-12 shrink-0 rounded-lg overflow-hidden border border-neutral-800 flex items-center justify-center">
+        {value && !failed ? (
+          <img src={value} alt="" className="w-full h-full object-cover" onError={() => setFailed(true)} />
+        ) : (
+          <ImageOff className="w-5 h-5 text-neutral-400" />
+        )}
+      </div>
+      <Input
+        type="url"
+        value={value}
+        placeholder="https://..."
+        onChange={(e) => {
+          setFailed(false);
+          onChange(e.target.value || undefined);
+        }}
+        className={fieldClassName}
+      />
+    </div>
+  );
+}
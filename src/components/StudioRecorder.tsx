@@ -11,6 +11,7 @@ import fixWebmDuration from 'fix-webm-duration';
 import * as tus from 'tus-js-client';
 
 import { supabase } from '@/integrations/supabase/client';
+import { drawSourceFrame, type FitMode } from '@/lib/render';
 
 export interface StudioRecorderHandle {
   startRecording: () => Promise<void>;
@@ -21,6 +22,10 @@ export interface StudioRecorderProps {
   children: React.ReactNode;
   className?: string;
   style?: React.CSSProperties;
+  // Recording size, defaults to the source's own size (e.g. 1080x1920 for vertical clips)
+  width?: number;
+  height?: number;
+  fit?: FitMode; // how the source fills width x height (default 'cover')
 
   onRecordingStart?: () => void;
   onRecordingStop?: () => void;
@@ -56,6 +61,12 @@ interface RecordedBlob {
   mimeType: string;
 }
 
+interface RecordingDimensions {
+  width?: number;
+  height?: number;
+  fit?: FitMode;
+}
+
 /**
  * Start recording from a video element using MediaRecorder
  *
@@ -71,7 +82,7 @@ class VideoRecorder {
   private canvasContext: CanvasRenderingContext2D | null = null;
   private frameAnimationId: number | null = null;
 
-  constructor(private videoElement: HTMLVideoElement) {}
+  constructor(private videoElement: HTMLVideoElement, private dimensions: RecordingDimensions = {}) {}
 
   /**
    * Start recording the video stream
@@ -87,9 +98,12 @@ class VideoRecorder {
       throw new Error('Failed to create canvas context for recording');
     }
 
-    // Set canvas size to match video
-    canvas.width = this.videoElement.videoWidth || 512;
-    canvas.height = this.videoElement.videoHeight || 512;
+    // Set canvas size to the requested output, or match video
+    const sourceWidth = this.videoElement.videoWidth || this.videoElement.width || 512;
+    const sourceHeight = this.videoElement.videoHeight || this.videoElement.height || 512;
+    canvas.width = this.dimensions.width || sourceWidth;
+    canvas.height = this.dimensions.height || sourceHeight;
+    const fit = this.dimensions.fit ?? 'cover';
 
     console.log('Canvas recording size:', canvas.width, 'x', canvas.height);
 
@@ -101,8 +115,17 @@ class VideoRecorder {
       if (!this.canvas || !this.canvasContext) return;
 
       try {
-        // Copy current video frame to canvas
-        this.canvasContext.drawImage(this.videoElement, 0, 0, canvas.width, canvas.height);
+        // Copy current video frame to canvas, fitted when the source size differs
+        const srcW = this.videoElement.videoWidth || this.videoElement.width;
+        const srcH = this.videoElement.videoHeight || this.videoElement.height;
+        if (srcW > 0 && srcH > 0) {
+          drawSourceFrame(this.canvasContext, this.videoElement, srcW, srcH, {
+            width: canvas.width,
+            height: canvas.height,
+            fit,
+            mirror: false,
+          });
+        }
 
         // Schedule next frame
         this.frameAnimationId = requestAnimationFrame(copyFrame);
@@ -470,7 +493,7 @@ async function uploadToLivepeer(
 }
 
 export const StudioRecorder = forwardRef<StudioRecorderHandle, StudioRecorderProps>(
-  ({ children, className, style, onRecordingStart, onRecordingStop, onProgress, onUploadDone, onComplete, onError }, ref) => {
+  ({ children, className, style, width, height, fit, onRecordingStart, onRecordingStop, onProgress, onUploadDone, onComplete, onError }, ref) => {
     const containerRef = useRef<HTMLDivElement>(null);
     const recorderRef = useRef<VideoRecorder | null>(null);
     const recordStartTimeRef = useRef<number | null>(null);
@@ -513,7 +536,7 @@ export const StudioRecorder = forwardRef<StudioRecorderHandle, StudioRecorderPro
         }
 
         // Create and start recorder
-        const recorder = new VideoRecorder(videoElement);
+        const recorder = new VideoRecorder(videoElement, { width, height, fit });
         await recorder.start();
 
         recorderRef.current = recorder;
@@ -531,7 +554,7 @@ export const StudioRecorder = forwardRef<StudioRecorderHandle, StudioRecorderPro
         recordStartTimeRef.current = null;
         onError?.(error instanceof Error ? error : new Error(String(error)));
       }
-    }, [onRecordingStart, onProgress, onError]);
+    }, [width, height, fit, onRecordingStart, onProgress, onError]);
 
     const stopRecording = useCallback(async () => {
       if (!recorderRef.current || !recordStartTimeRef.current) {
@@ -0,0 +1,44 @@
+import { useState, useEffect } from 'react';
+import { computeLevelDb } from '@/lib/audioGraph';
+
+export interface AudioLevel {
+  db: number; // RMS level in dBFS (-Infinity for silence)
+  rms: number; // 0-1
+  peak: number; // 0-1, largest sample in the window
+}
+
+const SILENT_LEVEL: AudioLevel = { db: -Infinity, rms: 0, peak: 0 };
+
+/**
+ * Live audio level from an AnalyserNode, sampled every `intervalMs`.
+ *
+ * Pair with DaydreamCanvas's audio analyser to meter the published mix:
+ * const [analyser, setAnalyser] = useState<AnalyserNode | null>(null);
+ * const level = useAudioLevel(analyser);
+ * <DaydreamCanvas onAudioAnalyser={setAnalyser} ... />
+ */
+export function useAudioLevel(analyser: AnalyserNode | null, intervalMs = 50): AudioLevel {
+  const [level, setLevel] = useState<AudioLevel>(SILENT_LEVEL);
+
+  useEffect(() => {
+    if (!analyser) {
+      setLevel(SILENT_LEVEL);
+      return;
+    }
+
+    const samples = new Float32Array(analyser.fftSize);
+    const intervalId = setInterval(() => {
+      analyser.getFloatTimeDomainData(samples);
+      let peak = 0;
+      for (let i = 0; i < samples.length; i++) {
+        peak = Math.max(peak, Math.abs(samples[i]));
+      }
+      const db = computeLevelDb(samples);
+      setLevel({ db, rms: Number.isFinite(db) ? Math.pow(10, db / 20) : 0, peak: Math.min(1, peak) });
+    }, intervalMs);
+
+    return () => clearInterval(intervalId);
+  }, [analyser, intervalMs]);
+
+  return level;
+}
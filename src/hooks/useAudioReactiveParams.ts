@@ -0,0 +1,124 @@
+import { useState, useEffect, useMemo, useRef } from 'react';
+import type { StreamDiffusionParams } from '@/components/DaydreamCanvas';
+import { createAudioContext } from '@/lib/audioGraph';
+import {
+  applyAudioParamValues,
+  createAudioFeatureExtractor,
+  mapFeatureValue,
+  type AudioFeatures,
+  type AudioParamMapping,
+  type AudioParamTarget,
+} from '@/lib/audioReactive';
+
+interface UseAudioReactiveParamsOptions {
+  // Published mix (DaydreamCanvas onAudioAnalyser) or a separate input, e.g. a line-in stream
+  source: AnalyserNode | MediaStream | MediaStreamTrack | null;
+  params: StreamDiffusionParams;
+  mappings: AudioParamMapping[];
+  enabled?: boolean; // default true
+  updateIntervalMs?: number; // min time between param changes, default 250
+}
+
+interface UseAudioReactiveParamsReturn {
+  params: StreamDiffusionParams; // base params with modulated fields, pass to DaydreamCanvas
+  features: AudioFeatures | null; // latest features, for UI
+}
+
+const ANALYSIS_INTERVAL_MS = 20;
+
+/**
+ * Modulate StreamDiffusion params from audio features (loudness, beats, bands).
+ *
+ * Features are read every 20ms and smoothed per mapping, but params only change every
+ * `updateIntervalMs` and only when a rounded value moves. DaydreamCanvas sends one update at
+ * a time and coalesces to the latest, so this rate bounds the request rate to the API:
+ * const { params } = useAudioReactiveParams({ source: analyser, params: brewParams, mappings });
+ * <DaydreamCanvas params={params} onAudioAnalyser={setAnalyser} ... />
+ */
+export function useAudioReactiveParams({
+  source,
+  params,
+  mappings,
+  enabled = true,
+  updateIntervalMs = 250,
+}: UseAudioReactiveParamsOptions): UseAudioReactiveParamsReturn {
+  const [analyser, setAnalyser] = useState<AnalyserNode | null>(null);
+  const [values, setValues] = useState<Map<AudioParamTarget, number>>(() => new Map());
+  const [features, setFeatures] = useState<AudioFeatures | null>(null);
+  const mappingsRef = useRef(mappings);
+  mappingsRef.current = mappings;
+
+  // Use the given analyser, or analyse a stream in a private AudioContext
+  useEffect(() => {
+    if (!source || !enabled) {
+      setAnalyser(null);
+      return;
+    }
+    if (source instanceof AnalyserNode) {
+      setAnalyser(source);
+      return;
+    }
+
+    const stream = source instanceof MediaStream ? source : new MediaStream([source]);
+    if (stream.getAudioTracks().length === 0) return;
+    const context = createAudioContext();
+    const node = context.createAnalyser();
+    node.fftSize = 1024;
+    context.createMediaStreamSource(stream).connect(node);
+    setAnalyser(node);
+    return () => {
+      setAnalyser(null);
+      void context.close().catch(() => {});
+    };
+  }, [source, enabled]);
+
+  useEffect(() => {
+    if (!analyser) {
+      setValues(new Map());
+      setFeatures(null);
+      return;
+    }
+
+    const extractor = createAudioFeatureExtractor(analyser);
+    const smoothed = new Map<AudioParamTarget, number>();
+    let latestFeatures: AudioFeatures | null = null;
+    let lastEmitted = '';
+
+    const analysisId = setInterval(() => {
+      latestFeatures = extractor.read();
+      for (const mapping of mappingsRef.current) {
+        const target = mapFeatureValue(mapping, latestFeatures[mapping.feature]);
+        const previous = smoothed.get(mapping.target);
+        const alpha = Math.min(0.99, Math.max(0, mapping.smoothing ?? 0.6));
+        smoothed.set(mapping.target, previous === undefined ? target : previous * alpha + target * (1 - alpha));
+      }
+    }, ANALYSIS_INTERVAL_MS);
+
+    const updateId = setInterval(() => {
+      if (latestFeatures) setFeatures(latestFeatures);
+      // Drop targets whose mapping was removed
+      const active = new Set(mappingsRef.current.map(m => m.target));
+      const next = new Map([...smoothed].filter(([target]) => active.has(target)));
+      // Only emit when a value moves at the precision the params are sent with
+      const key = JSON.stringify([...next].map(([target, value]) => [
+        target,
+        target.startsWith('t_index_list') ? Math.round(value) : Math.round(value * 100),
+      ]));
+      if (key === lastEmitted) return;
+      lastEmitted = key;
+      setValues(next);
+    }, Math.max(ANALYSIS_INTERVAL_MS, updateIntervalMs));
+
+    return () => {
+      clearInterval(analysisId);
+      clearInterval(updateId);
+    };
+  }, [analyser, updateIntervalMs]);
+
+  const modulated = useMemo(() => {
+    if (!enabled || values.size === 0) return params;
+    return applyAudioParamValues(params, values);
+  }, [enabled, params, values]);
+
+  return { params: modulated, features };
+}
@@ -0,0 +1,29 @@
+import { useState, useCallback } from 'react';
+import type { PublishStats } from '@/lib/publishStats';
+
+interface UseDaydreamStatsReturn {
+  stats: PublishStats | null;
+  onStats: (stats: PublishStats) => void;
+  reset: () => void;
+}
+
+/**
+ * Keep the latest publish stats from a DaydreamCanvas in React state.
+ *
+ * Pass `onStats` to the canvas and read `stats` for display:
+ * const { stats, onStats } = useDaydreamStats();
+ * <DaydreamCanvas onStats={onStats} ... />
+ */
+export function useDaydreamStats(): UseDaydreamStatsReturn {
+  const [stats, setStats] = useState<PublishStats | null>(null);
+
+  const onStats = useCallback((next: PublishStats) => {
+    setStats(next);
+  }, []);
+
+  const reset = useCallback(() => {
+    setStats(null);
+  }, []);
+
+  return { stats, onStats, reset };
+}
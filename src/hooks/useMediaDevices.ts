@@ -0,0 +1,64 @@
+import { useState, useEffect, useCallback } from 'react';
+
+interface UseMediaDevicesReturn {
+  devices: MediaDeviceInfo[];
+  videoInputs: MediaDeviceInfo[];
+  audioInputs: MediaDeviceInfo[];
+  error: unknown;
+  refresh: () => Promise<void>;
+  requestPermission: (kind?: 'video' | 'audio' | 'both') => Promise<boolean>;
+}
+
+/**
+ * Enumerate cameras and microphones, kept up to date as devices are plugged in or removed.
+ *
+ * Browsers hide device labels (and sometimes all but one device) until media permission is
+ * granted, so call `requestPermission()` before showing a picker:
+ * const { videoInputs } = useMediaDevices();
+ * <DaydreamCanvas videoSource={{ type: 'camera', deviceId: videoInputs[1]?.deviceId }} ... />
+ */
+export function useMediaDevices(): UseMediaDevicesReturn {
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const [error, setError] = useState<unknown>(null);
+
+  const refresh = useCallback(async () => {
+    if (!navigator.mediaDevices?.enumerateDevices) return;
+    try {
+      setDevices(await navigator.mediaDevices.enumerateDevices());
+      setError(null);
+    } catch (e) {
+      console.error('[useMediaDevices] Failed to enumerate devices:', e);
+      setError(e);
+    }
+  }, []);
+
+  const requestPermission = useCallback(async (kind: 'video' | 'audio' | 'both' = 'video') => {
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({
+        video: kind !== 'audio',
+        audio: kind !== 'video',
+      });
+      stream.getTracks().forEach(t => t.stop());
+      await refresh();
+      return true;
+    } catch (e) {
+      setError(e);
+      return false;
+    }
+  }, [refresh]);
+
+  // Hot-plug: re-enumerate whenever the device list changes
+  useEffect(() => {
+    void refresh();
+    const mediaDevices = navigator.mediaDevices;
+    if (!mediaDevices?.addEventListener) return;
+    const onDeviceChange = () => void refresh();
+    mediaDevices.addEventListener('devicechange', onDeviceChange);
+    return () => mediaDevices.removeEventListener('devicechange', onDeviceChange);
+  }, [refresh]);
+
+  const videoInputs = devices.filter(d => d.kind === 'videoinput');
+  const audioInputs = devices.filter(d => d.kind === 'audioinput');
+
+  return { devices, videoInputs, audioInputs, error, refresh, requestPermission };
+}
@@ -0,0 +1,58 @@
+import { useEffect, useRef } from 'react';
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+
+// Well under the janitor's stale timeout (JANITOR_STALE_MINUTES, default 5)
+const HEARTBEAT_INTERVAL_MS = 60_000;
+
+/**
+ * Keep the session of a live stream from being ended by the session-janitor edge function.
+ *
+ * Sends a heartbeat for `streamId` right away and then every minute, skipping beats while not
+ * `active`; when it stops (tab crashed, phone died) the janitor deletes the Daydream stream after
+ * a few minutes. `onSessionEnded` is called once if the janitor already ended the session (e.g.
+ * the device slept past the timeout), so the caller can restart or stop:
+ * useSessionHeartbeat(streamId, status === 'connected' || status === 'reconnecting', onEnded);
+ */
+export function useSessionHeartbeat(
+  streamId: string | null,
+  active: boolean,
+  onSessionEnded?: (streamId: string) => void
+): void {
+  // Read by the timer, which only restarts for a new stream
+  const activeRef = useRef(active);
+  const onSessionEndedRef = useRef(onSessionEnded);
+  useEffect(() => {
+    activeRef.current = active;
+    onSessionEndedRef.current = onSessionEnded;
+  }, [active, onSessionEnded]);
+
+  useEffect(() => {
+    if (!streamId) return;
+    let stopped = false;
+
+    const beat = async () => {
+      if (stopped || !activeRef.current) return;
+      const { error } = await supabase.functions.invoke('session-heartbeat', {
+        body: { streamId },
+      });
+      if (!error || stopped) return;
+
+      if (error instanceof FunctionsHttpError && (error.context as Response).status === 404) {
+        stopped = true;
+        console.warn('[HEARTBEAT] Session already ended by the janitor:', streamId);
+        onSessionEndedRef.current?.(streamId);
+        return;
+      }
+      // Missed beats are fine as long as one gets through before the timeout
+      console.warn('[HEARTBEAT] Session heartbeat failed:', error);
+    };
+
+    void beat();
+    const interval = setInterval(() => void beat(), HEARTBEAT_INTERVAL_MS);
+    return () => {
+      stopped = true;
+      clearInterval(interval);
+    };
+  }, [streamId]);
+}
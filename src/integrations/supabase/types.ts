@@ -99,11 +99,38 @@ export type Database = {
           },
         ]
       }
+      daydream_streams: {
+        Row: {
+          created_at: string
+          daydream_environment: string
+          deleted_at: string | null
+          stream_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          daydream_environment?: string
+          deleted_at?: string | null
+          stream_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          daydream_environment?: string
+          deleted_at?: string | null
+          stream_id?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       sessions: {
         Row: {
           camera_type: string
           created_at: string | null
+          daydream_environment: string
+          ended_at: string | null
           id: string
+          last_heartbeat_at: string | null
           playback_id: string
           stream_id: string
           user_id: string
@@ -111,7 +138,10 @@ export type Database = {
         Insert: {
           camera_type: string
           created_at?: string | null
+          daydream_environment?: string
+          ended_at?: string | null
           id?: string
+          last_heartbeat_at?: string | null
           playback_id: string
           stream_id: string
           user_id: string
@@ -119,7 +149,10 @@ export type Database = {
         Update: {
           camera_type?: string
           created_at?: string | null
+          daydream_environment?: string
+          ended_at?: string | null
           id?: string
+          last_heartbeat_at?: string | null
           playback_id?: string
           stream_id?: string
           user_id?: string
@@ -166,6 +199,24 @@ export type Database = {
           },
         ]
       }
+      turn_credential_grants: {
+        Row: {
+          created_at: string
+          id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       users: {
         Row: {
           created_at: string | null
@@ -195,7 +246,16 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      orphaned_daydream_streams: {
+        Args: { created_before: string; max_rows: number }
+        Returns: {
+          created_at: string
+          daydream_environment: string
+          deleted_at: string | null
+          stream_id: string
+          user_id: string
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
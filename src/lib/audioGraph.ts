@@ -0,0 +1,225 @@
+/**
+ * Web Audio processing chain for the published audio track:
+ * voice (mic and/or an external stream) -> noise gate -> gain -> compressor -> mix <- background music
+ *
+ * The graph exposes two tracks: the full mix, and a music-only "bed" that push-to-talk swaps in
+ * via RTCRtpSender.replaceTrack, so muting the voice keeps the music going without renegotiation.
+ */
+
+export interface CompressorOptions {
+  threshold?: number; // dB, default -24
+  knee?: number; // dB, default 30
+  ratio?: number; // default 4
+  attack?: number; // seconds, default 0.003
+  release?: number; // seconds, default 0.25
+}
+
+export interface NoiseGateOptions {
+  threshold?: number; // dBFS below which the voice is muted, default -50
+  attackMs?: number; // open time, default 5
+  releaseMs?: number; // close time, default 150
+}
+
+export interface BackgroundMusicOptions {
+  src: string | File | Blob; // File/Blob or a (CORS-enabled) URL
+  volume?: number; // 0-1, default 0.3
+  loop?: boolean; // default true
+}
+
+export interface AudioGraphOptions {
+  microphone?: boolean | MediaTrackConstraints; // capture the mic (true for echo cancellation + noise suppression)
+  stream?: MediaStream | MediaStreamTrack; // caller-owned voice input, mixed with the mic
+  music?: BackgroundMusicOptions;
+  gain?: number; // voice gain, default 1
+  compressor?: boolean | CompressorOptions;
+  noiseGate?: boolean | NoiseGateOptions;
+}
+
+// Settings that can change live without rebuilding the graph
+export type AudioGraphSettings = Pick<AudioGraphOptions, 'gain' | 'compressor' | 'noiseGate'> & {
+  musicVolume?: number;
+};
+
+export interface AudioGraph {
+  track: MediaStreamTrack; // full mix, publish this
+  bedTrack: MediaStreamTrack; // music only (silent without music), for push-to-talk
+  analyser: AnalyserNode; // level metering of the full mix
+  update: (settings: AudioGraphSettings) => void;
+  dispose: () => void;
+}
+
+const DEFAULT_COMPRESSOR: Required<CompressorOptions> = {
+  threshold: -24,
+  knee: 30,
+  ratio: 4,
+  attack: 0.003,
+  release: 0.25,
+};
+
+const DEFAULT_NOISE_GATE: Required<NoiseGateOptions> = {
+  threshold: -50,
+  attackMs: 5,
+  releaseMs: 150,
+};
+
+const NOISE_GATE_POLL_MS = 20;
+
+export function createAudioContext(): AudioContext {
+  const AudioContextCtor =
+    window.AudioContext || (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext;
+  return new AudioContextCtor();
+}
+
+// RMS level in dBFS (-Infinity for silence) from time-domain samples
+export function computeLevelDb(samples: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+  const rms = Math.sqrt(sum / samples.length);
+  return rms > 0 ? 20 * Math.log10(rms) : -Infinity;
+}
+
+function applyCompressorSettings(node: DynamicsCompressorNode, options: boolean | CompressorOptions | undefined) {
+  // Disabled compressor: ratio 1 passes audio through unchanged
+  const settings = options
+    ? { ...DEFAULT_COMPRESSOR, ...(typeof options === 'object' ? options : {}) }
+    : { ...DEFAULT_COMPRESSOR, ratio: 1, threshold: 0, knee: 0 };
+  node.threshold.value = settings.threshold;
+  node.knee.value = settings.knee;
+  node.ratio.value = settings.ratio;
+  node.attack.value = settings.attack;
+  node.release.value = settings.release;
+}
+
+export async function createAudioGraph(
+  options: AudioGraphOptions,
+  onError?: (error: unknown) => void
+): Promise<AudioGraph> {
+  const context = createAudioContext();
+  // May be suspended until a user gesture; resume is best-effort
+  void context.resume().catch(() => {});
+
+  const cleanups: Array<() => void> = [];
+  const voiceIn = context.createGain();
+  const gate = context.createGain();
+  const voiceGain = context.createGain();
+  const compressor = context.createDynamicsCompressor();
+  const musicGain = context.createGain();
+  const mix = context.createGain();
+  const analyser = context.createAnalyser();
+  const mixDest = context.createMediaStreamDestination();
+  const bedDest = context.createMediaStreamDestination();
+
+  analyser.fftSize = 1024;
+  voiceIn.connect(gate).connect(voiceGain).connect(compressor).connect(mix);
+  musicGain.connect(mix);
+  musicGain.connect(bedDest);
+  mix.connect(analyser);
+  mix.connect(mixDest);
+
+  try {
+    // Voice inputs
+    if (options.microphone) {
+      const micStream = await navigator.mediaDevices.getUserMedia({
+        audio: typeof options.microphone === 'object'
+          ? options.microphone
+          : { echoCancellation: true, noiseSuppression: true },
+        video: false,
+      });
+      context.createMediaStreamSource(micStream).connect(voiceIn);
+      cleanups.push(() => micStream.getTracks().forEach(t => t.stop()));
+    }
+    if (options.stream) {
+      const stream = options.stream instanceof MediaStream ? options.stream : new MediaStream([options.stream]);
+      if (stream.getAudioTracks().length > 0) {
+        context.createMediaStreamSource(stream).connect(voiceIn);
+      }
+    }
+
+    // Background music
+    if (options.music) {
+      const { src, loop = true } = options.music;
+      const objectUrl = typeof src === 'string' ? null : URL.createObjectURL(src);
+      const audio = new Audio();
+      audio.crossOrigin = 'anonymous';
+      audio.loop = loop;
+      audio.src = objectUrl ?? (src as string);
+      audio.onerror = () => onError?.(new Error('Failed to load background music'));
+      context.createMediaElementSource(audio).connect(musicGain);
+      audio.play().catch((e) => {
+        console.error('[AudioGraph] Error playing background music', e);
+        onError?.(e);
+      });
+      cleanups.push(() => {
+        audio.pause();
+        audio.removeAttribute('src');
+        audio.load();
+        if (objectUrl) URL.revokeObjectURL(objectUrl);
+      });
+    }
+  } catch (e) {
+    cleanups.forEach(fn => fn());
+    void context.close();
+    throw e;
+  }
+
+  // Noise gate: follow the pre-gate voice level and open/close the gate gain
+  let noiseGate: Required<NoiseGateOptions> | null = null;
+  const gateAnalyser = context.createAnalyser();
+  gateAnalyser.fftSize = 512;
+  voiceIn.connect(gateAnalyser);
+  const gateSamples = new Float32Array(gateAnalyser.fftSize);
+  let gateOpen = true;
+  const gateIntervalId = setInterval(() => {
+    if (!noiseGate) return;
+    gateAnalyser.getFloatTimeDomainData(gateSamples);
+    const open = computeLevelDb(gateSamples) >= noiseGate.threshold;
+    if (open === gateOpen) return;
+    gateOpen = open;
+    const timeConstant = (open ? noiseGate.attackMs : noiseGate.releaseMs) / 1000 / 3;
+    gate.gain.setTargetAtTime(open ? 1 : 0, context.currentTime, timeConstant);
+  }, NOISE_GATE_POLL_MS);
+
+  const update = (settings: AudioGraphSettings) => {
+    if (settings.gain !== undefined) {
+      voiceGain.gain.setTargetAtTime(settings.gain, context.currentTime, 0.02);
+    }
+    if (settings.musicVolume !== undefined) {
+      musicGain.gain.setTargetAtTime(settings.musicVolume, context.currentTime, 0.02);
+    }
+    if ('compressor' in settings) {
+      applyCompressorSettings(compressor, settings.compressor);
+    }
+    if ('noiseGate' in settings) {
+      noiseGate = settings.noiseGate
+        ? { ...DEFAULT_NOISE_GATE, ...(typeof settings.noiseGate === 'object' ? settings.noiseGate : {}) }
+        : null;
+      if (!noiseGate) {
+        gateOpen = true;
+        gate.gain.setTargetAtTime(1, context.currentTime, 0.01);
+      }
+    }
+  };
+
+  update({
+    gain: options.gain ?? 1,
+    musicVolume: options.music?.volume ?? 0.3,
+    compressor: options.compressor,
+    noiseGate: options.noiseGate,
+  });
+
+  const dispose = () => {
+    clearInterval(gateIntervalId);
+    cleanups.forEach(fn => fn());
+    mixDest.stream.getTracks().forEach(t => t.stop());
+    bedDest.stream.getTracks().forEach(t => t.stop());
+    void context.close().catch(() => {});
+  };
+
+  return {
+    track: mixDest.stream.getAudioTracks()[0],
+    bedTrack: bedDest.stream.getAudioTracks()[0],
+    analyser,
+    update,
+    dispose,
+  };
+}
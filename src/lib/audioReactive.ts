@@ -0,0 +1,134 @@
+/**
+ * Audio-reactive modulation of StreamDiffusion params: extracts loudness, beats and frequency
+ * bands from an AnalyserNode and maps them onto numeric param fields.
+ *
+ * Mappings target param paths, e.g. 'controlnets.0.conditioning_scale', 'ip_adapter.scale'
+ * or 't_index_list.1', so the music can push structure, style strength or denoising.
+ */
+
+import { computeLevelDb } from '@/lib/audioGraph';
+import type { StreamDiffusionParams } from '@/lib/pipelines';
+
+export interface AudioFeatures {
+  loudness: number; // 0-1, RMS mapped from -60..0 dBFS
+  beat: number; // 1 on a detected beat, decaying to 0 between beats
+  bass: number; // 0-1 band energy, 20-250 Hz
+  mid: number; // 250-4000 Hz
+  treble: number; // 4000+ Hz
+}
+
+export type AudioFeatureName = keyof AudioFeatures;
+
+export type AudioParamTarget =
+  | 'ip_adapter.scale'
+  | `controlnets.${number}.conditioning_scale`
+  | `t_index_list.${number}`;
+
+export interface AudioParamMapping {
+  feature: AudioFeatureName;
+  target: AudioParamTarget;
+  min: number; // param value at feature 0
+  max: number; // param value at feature 1
+  smoothing?: number; // 0 (none) to 0.99 (very slow), exponential moving average, default 0.6
+  curve?: 'linear' | 'exponential'; // exponential emphasizes peaks, default linear
+}
+
+export interface AudioFeatureExtractor {
+  read: () => AudioFeatures;
+}
+
+const LOUDNESS_FLOOR_DB = -60;
+const BEAT_HISTORY_SIZE = 43; // ~1s of reads at 20ms
+const BEAT_THRESHOLD = 1.4; // bass energy vs recent average
+const BEAT_MIN_INTERVAL_MS = 250;
+const BEAT_DECAY = 0.85; // per read
+
+export function createAudioFeatureExtractor(analyser: AnalyserNode): AudioFeatureExtractor {
+  const timeData = new Float32Array(analyser.fftSize);
+  const freqData = new Uint8Array(analyser.frequencyBinCount);
+  const binHz = analyser.context.sampleRate / analyser.fftSize;
+  const bassHistory: number[] = [];
+  let lastBeatAt = 0;
+  let beat = 0;
+
+  const bandEnergy = (fromHz: number, toHz: number) => {
+    const from = Math.max(0, Math.floor(fromHz / binHz));
+    const to = Math.min(freqData.length - 1, Math.ceil(toHz / binHz));
+    if (to < from) return 0;
+    let sum = 0;
+    for (let i = from; i <= to; i++) sum += freqData[i];
+    return sum / ((to - from + 1) * 255);
+  };
+
+  const read = (): AudioFeatures => {
+    analyser.getFloatTimeDomainData(timeData);
+    analyser.getByteFrequencyData(freqData);
+
+    const db = computeLevelDb(timeData);
+    const loudness = Number.isFinite(db)
+      ? Math.min(1, Math.max(0, (db - LOUDNESS_FLOOR_DB) / -LOUDNESS_FLOOR_DB))
+      : 0;
+    const bass = bandEnergy(20, 250);
+    const mid = bandEnergy(250, 4000);
+    const treble = bandEnergy(4000, analyser.context.sampleRate / 2);
+
+    // Beat: bass energy spike against its recent average
+    const average = bassHistory.length
+      ? bassHistory.reduce((a, b) => a + b, 0) / bassHistory.length
+      : 0;
+    bassHistory.push(bass);
+    if (bassHistory.length > BEAT_HISTORY_SIZE) bassHistory.shift();
+    const now = performance.now();
+    beat *= BEAT_DECAY;
+    if (average > 0.05 && bass > average * BEAT_THRESHOLD && now - lastBeatAt > BEAT_MIN_INTERVAL_MS) {
+      lastBeatAt = now;
+      beat = 1;
+    }
+
+    return { loudness, beat, bass, mid, treble };
+  };
+
+  return { read };
+}
+
+// Feature value (0-1) to param value for one mapping, without smoothing
+export function mapFeatureValue(mapping: AudioParamMapping, featureValue: number): number {
+  const x = Math.min(1, Math.max(0, featureValue));
+  const shaped = mapping.curve === 'exponential' ? x * x : x;
+  return mapping.min + (mapping.max - mapping.min) * shaped;
+}
+
+// Write modulated values into a copy of the base params; unknown or missing targets are skipped
+export function applyAudioParamValues(
+  base: StreamDiffusionParams,
+  values: Map<AudioParamTarget, number>
+): StreamDiffusionParams {
+  const next: StreamDiffusionParams = {
+    ...base,
+    controlnets: base.controlnets?.map(c => ({ ...c })),
+    ip_adapter: base.ip_adapter ? { ...base.ip_adapter } : undefined,
+    t_index_list: base.t_index_list ? [...base.t_index_list] : undefined,
+  };
+
+  values.forEach((value, target) => {
+    const [field, indexOrKey] = target.split('.');
+    if (field === 'ip_adapter' && next.ip_adapter) {
+      next.ip_adapter.scale = round(value, 2);
+    } else if (field === 'controlnets') {
+      const controlnet = next.controlnets?.[Number(indexOrKey)];
+      if (controlnet) controlnet.conditioning_scale = round(value, 2);
+    } else if (field === 't_index_list' && next.t_index_list) {
+      const index = Number(indexOrKey);
+      if (index < next.t_index_list.length) next.t_index_list[index] = Math.round(value);
+    }
+  });
+
+  // Denoising steps must stay ascending
+  if (next.t_index_list) next.t_index_list.sort((a, b) => a - b);
+  return next;
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
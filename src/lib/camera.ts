@@ -0,0 +1,91 @@
+/**
+ * Camera helpers for DaydreamCanvas: getUserMedia constraints for device/resolution selection,
+ * and zoom/torch controls via track capabilities (mostly mobile Chromium).
+ */
+
+export interface CameraConstraintOptions {
+  deviceId?: string; // exact device, takes precedence over facingMode
+  facingMode?: 'user' | 'environment';
+  width?: number; // ideal capture width (independent of the output size)
+  height?: number; // ideal capture height
+  frameRate?: number; // ideal capture frame rate
+}
+
+export interface CameraCapabilities {
+  deviceId: string | null;
+  label: string;
+  width: number | null; // actual capture settings
+  height: number | null;
+  frameRate: number | null;
+  zoom: { min: number; max: number; step: number; value: number } | null; // null if unsupported
+  torch: { value: boolean } | null; // null if unsupported
+}
+
+export interface CameraSettings {
+  zoom?: number;
+  torch?: boolean;
+}
+
+// zoom and torch are Image Capture extensions, not in the TypeScript DOM lib yet
+type ExtendedCapabilities = MediaTrackCapabilities & {
+  zoom?: { min: number; max: number; step?: number };
+  torch?: boolean;
+};
+type ExtendedSettings = MediaTrackSettings & { zoom?: number; torch?: boolean };
+
+export function buildCameraVideoConstraints({
+  deviceId,
+  facingMode,
+  width,
+  height,
+  frameRate,
+}: CameraConstraintOptions): MediaTrackConstraints {
+  const constraints: MediaTrackConstraints = deviceId
+    ? { deviceId: { exact: deviceId } }
+    : { facingMode: facingMode ?? 'user' };
+  if (width) constraints.width = { ideal: width };
+  if (height) constraints.height = { ideal: height };
+  if (frameRate) constraints.frameRate = { ideal: frameRate };
+  return constraints;
+}
+
+export function getCameraCapabilities(track: MediaStreamTrack): CameraCapabilities {
+  const capabilities = (typeof track.getCapabilities === 'function'
+    ? track.getCapabilities()
+    : {}) as ExtendedCapabilities;
+  const settings = track.getSettings() as ExtendedSettings;
+
+  return {
+    deviceId: settings.deviceId ?? null,
+    label: track.label,
+    width: settings.width ?? null,
+    height: settings.height ?? null,
+    frameRate: settings.frameRate ?? null,
+    zoom: capabilities.zoom
+      ? {
+          min: capabilities.zoom.min,
+          max: capabilities.zoom.max,
+          step: capabilities.zoom.step ?? 0.1,
+          value: settings.zoom ?? capabilities.zoom.min,
+        }
+      : null,
+    torch: capabilities.torch ? { value: settings.torch ?? false } : null,
+  };
+}
+
+export async function applyCameraSettings(track: MediaStreamTrack, { zoom, torch }: CameraSettings): Promise<void> {
+  const capabilities = getCameraCapabilities(track);
+  const advanced: Record<string, number | boolean> = {};
+
+  if (zoom !== undefined) {
+    if (!capabilities.zoom) throw new Error('Camera does not support zoom');
+    advanced.zoom = Math.min(capabilities.zoom.max, Math.max(capabilities.zoom.min, zoom));
+  }
+  if (torch !== undefined) {
+    if (!capabilities.torch) throw new Error('Camera does not support torch');
+    advanced.torch = torch;
+  }
+  if (Object.keys(advanced).length === 0) return;
+
+  await track.applyConstraints({ advanced: [advanced as MediaTrackConstraintSet] });
+}
@@ -0,0 +1,273 @@
+/**
+ * Multi-source compositor for DaydreamCanvas `composite` video sources: layers cameras,
+ * screen shares, images, video files, streams and canvases into one output frame.
+ *
+ * Layer geometry (position, scale, opacity, z-order) is read on every draw, so it can be
+ * edited live. Media is only (re)acquired when a layer's id or source changes.
+ */
+
+import { computeFitDrawRect, type Canvas2DContext, type FitMode } from '@/lib/render';
+import { toMediaError } from '@/lib/errors';
+
+export type CompositeLayerSource =
+  | { type: 'camera'; facingMode?: 'user' | 'environment'; deviceId?: string }
+  | { type: 'screen'; constraints?: DisplayMediaStreamOptions } // getDisplayMedia, prompts the user
+  | { type: 'stream'; stream: MediaStream } // caller-owned
+  | { type: 'image'; src: string | HTMLImageElement | ImageBitmap }
+  | { type: 'video'; src: string | File | Blob; loop?: boolean; playbackRate?: number }
+  | { type: 'canvas'; canvas: HTMLCanvasElement };
+
+export type CompositeLayerFit = Exclude<FitMode, 'letterbox'>;
+
+export interface CompositeLayer {
+  id: string; // stable key, media is kept while the id and source stay the same
+  source: CompositeLayerSource;
+  x?: number; // left edge, fraction of the output (default 0)
+  y?: number; // top edge, fraction of the output (default 0)
+  width?: number; // fraction of the output (default 1)
+  height?: number; // fraction of the output (default 1)
+  scale?: number; // around the layer center (default 1)
+  opacity?: number; // 0-1 (default 1)
+  zIndex?: number; // higher draws on top, ties keep array order (default 0)
+  fit?: CompositeLayerFit; // how the source fills its rect (default 'cover')
+  mirror?: boolean; // flip horizontally (default true for user-facing cameras)
+  visible?: boolean; // default true
+}
+
+export interface Compositor {
+  setLayers: (layers: CompositeLayer[]) => void;
+  draw: (ctx: Canvas2DContext, width: number, height: number, background?: string) => void;
+  dispose: () => void;
+}
+
+interface LayerMedia {
+  source: CompositeLayerSource;
+  element: HTMLVideoElement | HTMLImageElement | HTMLCanvasElement | ImageBitmap | null;
+  release: () => void;
+}
+
+// Video elements must be in the DOM for drawImage to work reliably
+function createHiddenVideo(): HTMLVideoElement {
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.autoplay = true;
+  video.style.position = 'fixed';
+  video.style.top = '-9999px';
+  video.style.left = '-9999px';
+  video.style.width = '1px';
+  video.style.height = '1px';
+  video.style.opacity = '0';
+  video.style.pointerEvents = 'none';
+  document.body.appendChild(video);
+  return video;
+}
+
+function removeHiddenVideo(video: HTMLVideoElement) {
+  video.pause();
+  video.srcObject = null;
+  video.removeAttribute('src');
+  video.load();
+  video.parentNode?.removeChild(video);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+}
+
+// Same media if every field matches; plain config objects (constraints) compare by value
+function isSameSource(a: CompositeLayerSource, b: CompositeLayerSource): boolean {
+  if (a.type !== b.type) return false;
+  const aFields = a as Record<string, unknown>;
+  const bFields = b as Record<string, unknown>;
+  const keys = new Set([...Object.keys(aFields), ...Object.keys(bFields)]);
+  for (const key of keys) {
+    const av = aFields[key];
+    const bv = bFields[key];
+    if (av === bv) continue;
+    if (isPlainObject(av) && isPlainObject(bv) && JSON.stringify(av) === JSON.stringify(bv)) continue;
+    return false;
+  }
+  return true;
+}
+
+function getSourceSize(element: LayerMedia['element']): { width: number; height: number } | null {
+  if (!element) return null;
+  if (element instanceof HTMLVideoElement) {
+    if (element.readyState < element.HAVE_CURRENT_DATA) return null;
+    return { width: element.videoWidth, height: element.videoHeight };
+  }
+  if (element instanceof HTMLImageElement) {
+    if (!element.complete) return null;
+    return { width: element.naturalWidth, height: element.naturalHeight };
+  }
+  return { width: element.width, height: element.height };
+}
+
+export function createCompositor(onError?: (error: unknown) => void): Compositor {
+  let layers: CompositeLayer[] = [];
+  const media = new Map<string, LayerMedia>();
+  let disposed = false;
+
+  const acquire = (source: CompositeLayerSource): LayerMedia => {
+    const entry: LayerMedia = { source, element: null, release: () => {} };
+
+    const playStream = (getStream: () => Promise<MediaStream>) => {
+      let released = false;
+      let stream: MediaStream | null = null;
+      const video = createHiddenVideo();
+      entry.release = () => {
+        released = true;
+        stream?.getTracks().forEach(t => t.stop());
+        removeHiddenVideo(video);
+      };
+      getStream()
+        .then((s) => {
+          if (released) {
+            s.getTracks().forEach(t => t.stop());
+            return;
+          }
+          stream = s;
+          video.srcObject = s;
+          entry.element = video;
+          video.play().catch((e) => console.error('[Compositor] Error playing layer stream', e));
+        })
+        .catch((e) => {
+          console.error(`[Compositor] Failed to get ${source.type} layer media:`, e);
+          if (!released) onError?.(toMediaError(e, source.type === 'screen' ? 'screen' : 'camera'));
+        });
+    };
+
+    switch (source.type) {
+      case 'camera':
+        playStream(() => navigator.mediaDevices.getUserMedia({
+          video: source.deviceId
+            ? { deviceId: { exact: source.deviceId } }
+            : { facingMode: source.facingMode ?? 'user' },
+          audio: false,
+        }));
+        break;
+      case 'screen':
+        playStream(() => navigator.mediaDevices.getDisplayMedia({ video: true, audio: false, ...source.constraints }));
+        break;
+      case 'stream': {
+        // Caller owns the stream: only the video element is ours
+        const video = createHiddenVideo();
+        video.srcObject = source.stream;
+        video.play().catch((e) => console.error('[Compositor] Error playing layer stream', e));
+        entry.element = video;
+        entry.release = () => removeHiddenVideo(video);
+        break;
+      }
+      case 'image': {
+        if (typeof source.src !== 'string') {
+          entry.element = source.src;
+          break;
+        }
+        const img = new Image();
+        img.crossOrigin = 'anonymous';
+        img.onerror = () => onError?.(new Error(`Failed to load image layer: ${source.src}`));
+        img.src = source.src;
+        entry.element = img;
+        break;
+      }
+      case 'video': {
+        const video = createHiddenVideo();
+        const objectUrl = typeof source.src === 'string' ? null : URL.createObjectURL(source.src);
+        video.loop = source.loop ?? true;
+        video.crossOrigin = 'anonymous';
+        video.src = objectUrl ?? (source.src as string);
+        video.playbackRate = source.playbackRate ?? 1;
+        video.onerror = () => onError?.(new Error('Failed to load video layer'));
+        video.play().catch((e) => console.error('[Compositor] Error playing video layer', e));
+        entry.element = video;
+        entry.release = () => {
+          removeHiddenVideo(video);
+          if (objectUrl) URL.revokeObjectURL(objectUrl);
+        };
+        break;
+      }
+      case 'canvas':
+        entry.element = source.canvas;
+        break;
+    }
+    return entry;
+  };
+
+  const setLayers = (next: CompositeLayer[]) => {
+    if (disposed) return;
+    layers = next;
+
+    // Release removed layers and layers whose source changed
+    for (const [id, entry] of media) {
+      const layer = next.find(l => l.id === id);
+      if (!layer || !isSameSource(entry.source, layer.source)) {
+        entry.release();
+        media.delete(id);
+      }
+    }
+    for (const layer of next) {
+      if (!media.has(layer.id)) {
+        media.set(layer.id, acquire(layer.source));
+      }
+    }
+  };
+
+  const draw = (ctx: Canvas2DContext, outputWidth: number, outputHeight: number, background = '#000000') => {
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.globalAlpha = 1;
+    ctx.fillStyle = background;
+    ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+
+    // Stable sort keeps array order for equal zIndex
+    const ordered = layers
+      .map((layer, index) => ({ layer, index }))
+      .sort((a, b) => (a.layer.zIndex ?? 0) - (b.layer.zIndex ?? 0) || a.index - b.index);
+
+    for (const { layer } of ordered) {
+      const opacity = layer.opacity ?? 1;
+      if (layer.visible === false || opacity <= 0) continue;
+      const element = media.get(layer.id)?.element ?? null;
+      const srcSize = getSourceSize(element);
+      if (!element || !srcSize || srcSize.width <= 0 || srcSize.height <= 0) continue;
+
+      const scale = layer.scale ?? 1;
+      const w = (layer.width ?? 1) * outputWidth * scale;
+      const h = (layer.height ?? 1) * outputHeight * scale;
+      const cx = ((layer.x ?? 0) + (layer.width ?? 1) / 2) * outputWidth;
+      const cy = ((layer.y ?? 0) + (layer.height ?? 1) / 2) * outputHeight;
+      const rect = { x: cx - w / 2, y: cy - h / 2, w, h };
+      const mirror = layer.mirror
+        ?? (layer.source.type === 'camera' && (layer.source.facingMode ?? 'user') === 'user' && !layer.source.deviceId);
+
+      ctx.save();
+      ctx.globalAlpha = Math.min(1, opacity);
+      // Keep cover-cropped sources inside their rect
+      ctx.beginPath();
+      ctx.rect(rect.x, rect.y, rect.w, rect.h);
+      ctx.clip();
+      if (mirror) {
+        ctx.translate(cx * 2, 0);
+        ctx.scale(-1, 1);
+      }
+      const { dx, dy, drawWidth, drawHeight } = computeFitDrawRect(
+        srcSize.width,
+        srcSize.height,
+        rect.w,
+        rect.h,
+        layer.fit ?? 'cover'
+      );
+      ctx.drawImage(element, rect.x + dx, rect.y + dy, drawWidth, drawHeight);
+      ctx.restore();
+    }
+  };
+
+  const dispose = () => {
+    disposed = true;
+    media.forEach(entry => entry.release());
+    media.clear();
+    layers = [];
+  };
+
+  return { setLayers, draw, dispose };
+}
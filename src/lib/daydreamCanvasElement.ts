@@ -0,0 +1,194 @@
+/**
+ * <daydream-canvas> custom element: DaydreamPublisher behind attributes and DOM events, for pages
+ * that don't use React. Publishing starts when the element is connected (unless autostart="false")
+ * and stops when it is removed.
+ *
+ * <daydream-canvas functions-url="https://<project>.supabase.co/functions/v1" token="<publishable key>"
+ *   pipeline="streamdiffusion" prompt="neon city" source="camera"></daydream-canvas>
+ *
+ * Attributes:
+ * - pipeline: registered pipeline id (default streamdiffusion)
+ * - prompt: merged over the params property, changes are sent live
+ * - source: 'camera' (front), 'camera:environment', 'blank', 'video:<url>' or 'image:<url>'
+ * - functions-url / token: build an EdgeFunctionDaydreamClient (or set the client property)
+ * - size: long side of the output in px (default 512)
+ * - autostart: "false" to start from script with start()
+ *
+ * Events (CustomEvent, detail in parentheses): ready (StreamInfo), error ({ error }),
+ * connectionstatechange ({ state }), statuschange ({ status })
+ */
+
+import {
+  DaydreamPublisher,
+  type DaydreamClient,
+  type DaydreamPublisherOptions,
+  type DaydreamPublisherStatus,
+  type DaydreamVideoSource,
+  type StreamInfo,
+} from '@/lib/daydreamPublisher';
+import { EdgeFunctionDaydreamClient } from '@/lib/edgeFunctionClient';
+
+export interface DaydreamCanvasElementEventMap {
+  ready: CustomEvent<StreamInfo>;
+  error: CustomEvent<{ error: Error }>;
+  connectionstatechange: CustomEvent<{ state: RTCPeerConnectionState }>;
+  statuschange: CustomEvent<{ status: DaydreamPublisherStatus }>;
+}
+
+// Video source from the `source` attribute; unknown values fall back to the front camera
+export function parseSourceAttribute(value: string | null): DaydreamVideoSource {
+  const [kind, ...rest] = (value ?? 'camera').split(':');
+  const arg = rest.join(':');
+  switch (kind) {
+    case 'blank':
+      return { type: 'blank' };
+    case 'video':
+      return { type: 'file', file: arg };
+    case 'image':
+      return { type: 'image', image: arg };
+    case 'camera':
+      return { type: 'camera', facingMode: arg === 'environment' ? 'environment' : 'user' };
+    default:
+      console.warn(`[daydream-canvas] Unknown source "${value}", using the camera`);
+      return { type: 'camera', facingMode: 'user' };
+  }
+}
+
+export class DaydreamCanvasElement extends HTMLElement {
+  static observedAttributes = ['pipeline', 'prompt', 'source', 'functions-url', 'token', 'size'];
+
+  private publisher: DaydreamPublisher<object> | null = null;
+  private canvas: HTMLCanvasElement;
+  private clientOverride: DaydreamClient<object> | null = null;
+  private edgeClient: { key: string; client: DaydreamClient<object> } | null = null;
+  private baseParams: object | undefined;
+
+  constructor() {
+    super();
+    const shadow = this.attachShadow({ mode: 'open' });
+    const style = document.createElement('style');
+    style.textContent = ':host { display: inline-block; } canvas { display: block; width: 100%; height: 100%; }';
+    this.canvas = document.createElement('canvas');
+    shadow.append(style, this.canvas);
+  }
+
+  // Client for the Daydream edge functions, overrides functions-url/token
+  get client(): DaydreamClient<object> | null {
+    return this.clientOverride ?? this.edgeClient?.client ?? null;
+  }
+
+  set client(client: DaydreamClient<object> | null) {
+    this.clientOverride = client;
+    this.update();
+  }
+
+  // Base pipeline params; the prompt attribute wins over params.prompt
+  get params(): object | undefined {
+    return this.baseParams;
+  }
+
+  set params(params: object | undefined) {
+    this.baseParams = params;
+    this.update();
+  }
+
+  get status(): DaydreamPublisherStatus {
+    return this.publisher?.status ?? 'idle';
+  }
+
+  getStreamInfo(): StreamInfo | null {
+    return this.publisher?.getStreamInfo() ?? null;
+  }
+
+  async start(): Promise<void> {
+    await this.publisher?.start();
+  }
+
+  async stop(): Promise<void> {
+    await this.publisher?.stop();
+  }
+
+  async restart(): Promise<void> {
+    await this.publisher?.restart();
+  }
+
+  connectedCallback(): void {
+    const options = this.buildOptions();
+    if (!options) {
+      console.error('[daydream-canvas] Set functions-url and token, or the client property');
+      return;
+    }
+    this.publisher = new DaydreamPublisher(this.canvas, options);
+    if (this.getAttribute('autostart') !== 'false') {
+      this.publisher.start().catch(() => {
+        // Already dispatched as an error event
+      });
+    }
+  }
+
+  disconnectedCallback(): void {
+    void this.publisher?.destroy();
+    this.publisher = null;
+  }
+
+  attributeChangedCallback(): void {
+    this.update();
+  }
+
+  private update(): void {
+    if (!this.isConnected) return;
+    const options = this.buildOptions();
+    if (!options) return;
+    if (this.publisher) {
+      this.publisher.setOptions(options);
+    } else {
+      // The client was missing when the element was connected
+      this.connectedCallback();
+    }
+  }
+
+  private resolveClient(): DaydreamClient<object> | null {
+    if (this.clientOverride) return this.clientOverride;
+    const functionsUrl = this.getAttribute('functions-url');
+    const token = this.getAttribute('token');
+    if (!functionsUrl || !token) return null;
+    // Keep the same client while the attributes don't change
+    const key = `${functionsUrl}\n${token}`;
+    if (this.edgeClient?.key !== key) {
+      this.edgeClient = { key, client: new EdgeFunctionDaydreamClient(functionsUrl, token) };
+    }
+    return this.edgeClient.client;
+  }
+
+  private buildOptions(): DaydreamPublisherOptions<object> | null {
+    const client = this.resolveClient();
+    if (!client) return null;
+    const prompt = this.getAttribute('prompt');
+    const size = Number(this.getAttribute('size'));
+    return {
+      client,
+      pipeline: this.getAttribute('pipeline') ?? undefined,
+      params: prompt === null ? this.baseParams : { ...this.baseParams, prompt },
+      videoSource: parseSourceAttribute(this.getAttribute('source')),
+      size: size > 0 ? size : undefined,
+      onReady: (info) => this.emit('ready', info),
+      onError: (error) => this.emit('error', { error }),
+      onConnectionStateChange: (state) => this.emit('connectionstatechange', { state }),
+      onStatusChange: (status) => this.emit('statuschange', { status }),
+    };
+  }
+
+  private emit<K extends keyof DaydreamCanvasElementEventMap>(
+    type: K,
+    detail: DaydreamCanvasElementEventMap[K]['detail']
+  ): void {
+    this.dispatchEvent(new CustomEvent(type, { detail }));
+  }
+}
+
+// Register the element (no-op if the tag is already defined, e.g. by another copy of the SDK)
+export function defineDaydreamCanvasElement(tagName: string = 'daydream-canvas'): void {
+  if (typeof customElements === 'undefined' || customElements.get(tagName)) return;
+  // A constructor can only be registered once, so each tag name gets its own subclass
+  customElements.define(tagName, class extends DaydreamCanvasElement {});
+}
@@ -1,10 +1,34 @@
-import { DaydreamStream, StreamDiffusionParams, DaydreamClient } from '@/components/DaydreamCanvas';
+import type { DaydreamStream, DaydreamClient, ListStreamsOptions } from '@/lib/daydreamPublisher';
+import { DaydreamApiError } from '@/lib/errors';
+import { parseStreamStatus, type DaydreamStreamStatus } from '@/lib/streamStatus';
+
+interface RawStream {
+  id: string;
+  output_playback_id: string;
+  whip_url: string;
+  pipeline?: string;
+  pipeline_id?: string;
+  created_at?: string;
+}
+
+// Stream fields we use from an API stream object
+export function toDaydreamStream(raw: RawStream): DaydreamStream {
+  const { id, output_playback_id, whip_url, created_at } = raw;
+  return { id, output_playback_id, whip_url, pipeline: raw.pipeline ?? raw.pipeline_id, created_at };
+}
+
+// Accepts a bare array, the API body ({ data }) or our edge function's ({ streams })
+export function parseStreamList(body: unknown): DaydreamStream[] {
+  const wrapped = body as { data?: unknown; streams?: unknown } | null;
+  const list = Array.isArray(body) ? body : wrapped?.data ?? wrapped?.streams;
+  return Array.isArray(list) ? list.map(toDaydreamStream) : [];
+}
 
 /**
  * Direct Daydream API client that implements the DaydreamClient interface
  * Calls Daydream APIs directly without going through Supabase Edge Functions
  */
-export class DaydreamApiClient implements DaydreamClient {
+export class DaydreamApiClient implements DaydreamClient<object> {
   private apiKey: string;
   private baseUrl: string;
 
@@ -17,7 +41,7 @@ export class DaydreamApiClient implements DaydreamClient {
    * Create a new Daydream stream with the specified pipeline
    * If initialParams provided, they are sent as params to Daydream
    */
-  async createStream(pipeline: string, initialParams?: StreamDiffusionParams): Promise<DaydreamStream> {
+  async createStream(pipeline: string, initialParams?: object): Promise<DaydreamStream> {
     console.log('[DAYDREAM] Creating stream with pipeline:', pipeline, 'and initialParams:', JSON.stringify(initialParams, null, 2));
     const response = await fetch(`${this.baseUrl}/v1/streams`, {
       method: 'POST',
@@ -35,7 +59,7 @@ export class DaydreamApiClient implements DaydreamClient {
 
     if (!response.ok) {
       console.error('[DAYDREAM] API error:', streamData);
-      throw new Error(`Daydream API error: ${response.status} ${response.statusText}`);
+      throw new DaydreamApiError('createStream', response.status, streamData);
     }
 
     const { id, output_playback_id, whip_url } = streamData;
@@ -43,10 +67,10 @@ export class DaydreamApiClient implements DaydreamClient {
   }
 
   /**
-   * Update StreamDiffusion prompts for a stream
-   * Sends the full params object as required by Daydream API
+   * Update the params of a running stream
+   * Sends the full params, or only the changed fields for pipelines with partial updates
    */
-  async updatePrompts(streamId: string, params: StreamDiffusionParams, pipeline: string = 'streamdiffusion'): Promise<void> {
+  async updatePrompts(streamId: string, params: object, pipeline: string = 'streamdiffusion'): Promise<void> {
     console.log('[DAYDREAM] Updating stream', streamId, 'with params:', JSON.stringify(params, null, 2));
 
     const response = await fetch(`${this.baseUrl}/v1/streams/${streamId}`, {
@@ -62,7 +86,88 @@ export class DaydreamApiClient implements DaydreamClient {
 
     if (!response.ok) {
       console.error('[DAYDREAM] API error:', JSON.stringify(data, null, 2));
-      throw new Error(`Daydream API error: ${response.status} ${response.statusText}`);
+      throw new DaydreamApiError('updatePrompts', response.status, data);
+    }
+  }
+
+  /**
+   * Get the stream status, polled after publishing until the pipeline produces output
+   */
+  async getStreamStatus(streamId: string): Promise<DaydreamStreamStatus> {
+    const response = await fetch(`${this.baseUrl}/v1/streams/${streamId}/status`, {
+      headers: {
+        'Authorization': `Bearer ${this.apiKey}`,
+      },
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      console.error('[DAYDREAM] API error:', JSON.stringify(data, null, 2));
+      throw new DaydreamApiError('getStreamStatus', response.status, data);
+    }
+
+    return parseStreamStatus(data);
+  }
+
+  /**
+   * Get a stream (current WHIP URL, playback ID and pipeline)
+   */
+  async getStream(streamId: string): Promise<DaydreamStream> {
+    const response = await fetch(`${this.baseUrl}/v1/streams/${streamId}`, {
+      headers: {
+        'Authorization': `Bearer ${this.apiKey}`,
+      },
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      console.error('[DAYDREAM] API error:', JSON.stringify(data, null, 2));
+      throw new DaydreamApiError('getStream', response.status, data);
     }
+
+    return toDaydreamStream(data);
+  }
+
+  /**
+   * End a stream so it stops running on the account
+   */
+  async deleteStream(streamId: string): Promise<void> {
+    console.log('[DAYDREAM] Deleting stream', streamId);
+
+    const response = await fetch(`${this.baseUrl}/v1/streams/${streamId}`, {
+      method: 'DELETE',
+      headers: {
+        'Authorization': `Bearer ${this.apiKey}`,
+      },
+    });
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => null);
+      console.error('[DAYDREAM] API error:', JSON.stringify(data, null, 2));
+      throw new DaydreamApiError('deleteStream', response.status, data);
+    }
+  }
+
+  /**
+   * List the account's streams, newest first
+   */
+  async listStreams({ limit = 20, offset = 0 }: ListStreamsOptions = {}): Promise<DaydreamStream[]> {
+    const query = new URLSearchParams({ limit: String(limit), offset: String(offset) });
+    const response = await fetch(`${this.baseUrl}/v1/streams?${query}`, {
+      headers: {
+        'Authorization': `Bearer ${this.apiKey}`,
+      },
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      console.error('[DAYDREAM] API error:', JSON.stringify(data, null, 2));
+      throw new DaydreamApiError('listStreams', response.status, data);
+    }
+
+    return parseStreamList(data);
   }
 }
@@ -0,0 +1,66 @@
+/**
+ * Daydream environment (prod, staging, local mock) the edge functions talk to for this browser.
+ *
+ * Environments are defined server-side (supabase/functions/_shared/daydreamEnvironment.ts); the
+ * client only sends a name, and anything but prod is rejected for non-staff users. Staff pick one
+ * on /capture, it's kept in localStorage; a stream keeps the environment it was created in.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+
+export const DEFAULT_DAYDREAM_ENVIRONMENT = 'prod';
+
+const STORAGE_KEY = 'daydream-environment';
+
+export interface DaydreamEnvironmentOption {
+  name: string;
+  label: string;
+}
+
+export function getDaydreamEnvironment(): string {
+  if (typeof window === 'undefined') return DEFAULT_DAYDREAM_ENVIRONMENT;
+  try {
+    return window.localStorage.getItem(STORAGE_KEY) || DEFAULT_DAYDREAM_ENVIRONMENT;
+  } catch {
+    return DEFAULT_DAYDREAM_ENVIRONMENT;
+  }
+}
+
+export function setDaydreamEnvironment(name: string): void {
+  try {
+    if (name === DEFAULT_DAYDREAM_ENVIRONMENT) {
+      window.localStorage.removeItem(STORAGE_KEY);
+    } else {
+      window.localStorage.setItem(STORAGE_KEY, name);
+    }
+  } catch {
+    // Storage disabled (private mode): the choice just doesn't persist
+  }
+}
+
+// Environment each stream was created in, so calls on it (updates, status, delete on stop) and its
+// session row stay there when the selection changes afterwards
+const streamEnvironments = new Map<string, string>();
+
+export function rememberStreamEnvironment(streamId: string, environment: string): void {
+  streamEnvironments.set(streamId, environment);
+}
+
+// Environment of a stream created in this page, else the current selection
+export function getStreamEnvironment(streamId: string): string {
+  return streamEnvironments.get(streamId) ?? getDaydreamEnvironment();
+}
+
+/**
+ * Environments the signed-in user may pick (only prod for non-staff)
+ */
+export async function fetchDaydreamEnvironments(): Promise<DaydreamEnvironmentOption[]> {
+  const { data, error } = await supabase.functions.invoke('daydream-environments');
+
+  if (error) {
+    console.error('[DAYDREAM] Error fetching environments:', error);
+    throw error;
+  }
+
+  return (data?.environments ?? []) as DaydreamEnvironmentOption[];
+}
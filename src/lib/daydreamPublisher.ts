@@ -0,0 +1,1827 @@
+/**
+ * Framework-agnostic Daydream publisher: draws the video source into a canvas, publishes the
+ * canvas (plus audio) over WHIP, and keeps the stream's params in sync through a serial update queue.
+ *
+ * DaydreamCanvas is a thin React wrapper around it; without React, pass the canvas and options:
+ * const publisher = new DaydreamPublisher(canvas, { client, params, videoSource: { type: 'camera' } });
+ * await publisher.start();
+ * publisher.setParams({ ...params, prompt: 'neon city' });
+ */
+
+import { DEFAULT_RETRY_POLICIES, retryWithBackoff, type DaydreamOperation, type RetryPolicy } from '@/lib/retry';
+import { getErrorStatus, toError, toMediaError, WhipNegotiationError, type DaydreamCanvasError } from '@/lib/errors';
+import {
+  DEFAULT_MAX_BITRATE,
+  applySenderEncodingLimits,
+  startAdaptiveBitrate,
+  type VideoCodec,
+} from '@/lib/encoder';
+import { createAudioGraph, type AudioGraph, type AudioGraphOptions } from '@/lib/audioGraph';
+import {
+  applyCameraSettings,
+  buildCameraVideoConstraints,
+  getCameraCapabilities,
+  type CameraCapabilities,
+  type CameraSettings,
+} from '@/lib/camera';
+import { createCompositor, type CompositeLayer, type Compositor } from '@/lib/compositor';
+import { runFrameProcessors, type FrameProcessor } from '@/lib/frameProcessors';
+import {
+  createVideoFrameReadable,
+  drawBlankFrame,
+  drawSourceFrame,
+  resolveOutputDimensions,
+  resolveRenderMode,
+  type AspectRatio,
+  type FitMode,
+  type OutputDimensions,
+  type RenderMode,
+  type RenderWorkerMessage,
+} from '@/lib/render';
+import { collectPublishStats, type PublishStats } from '@/lib/publishStats';
+import { DEFAULT_ICE_SERVERS, startWhipPublish, type IceGatheringStrategy, type WhipSession } from '@/lib/whip';
+import {
+  getPipeline,
+  buildPipelineParamsUpdate,
+  getReloadFields,
+  resolvePipelineParams,
+  validatePipelineParams,
+  type PipelineDefinition,
+  type StreamDiffusionParams,
+} from '@/lib/pipelines';
+import { waitForStreamReady, type DaydreamStreamStatus } from '@/lib/streamStatus';
+
+export interface DaydreamStream {
+  id: string;
+  output_playback_id: string;
+  whip_url: string;
+  pipeline?: string; // set by getStream/listStreams
+  created_at?: string;
+}
+
+export interface ListStreamsOptions {
+  limit?: number; // default 20
+  offset?: number;
+}
+
+// Generic over the pipeline's params type, see src/lib/pipelines.ts
+export interface DaydreamClient<P extends object = StreamDiffusionParams> {
+  createStream(pipeline: string, initialParams?: P): Promise<DaydreamStream>;
+  // Full params, or only the changed fields for pipelines with partial updates
+  updatePrompts(streamId: string, params: Partial<P>, pipeline: string): Promise<void>;
+  // Optional short-lived ICE servers (e.g. TURN credentials), fetched before each publish
+  getIceServers?(): Promise<RTCIceServer[]>;
+  // Optional status, polled after publishing to send params as soon as the pipeline is warm
+  getStreamStatus?(streamId: string): Promise<DaydreamStreamStatus>;
+  // Optional stream lifecycle. getStream refreshes a suspended stream before resuming it,
+  // deleteStream ends streams the publisher stops or abandons
+  getStream?(streamId: string): Promise<DaydreamStream>;
+  deleteStream?(streamId: string): Promise<void>;
+  listStreams?(options?: ListStreamsOptions): Promise<DaydreamStream[]>;
+}
+
+export interface StreamInfo {
+  streamId: string;
+  playbackId: string;
+  playbackUrl: string | null;
+  resumed?: boolean; // re-published to an existing stream (same stream and playback IDs)
+}
+
+// Publishing lifecycle:
+// idle -> creating -> publishing -> connected <-> reconnecting, ending in stopped or failed
+export type DaydreamPublisherStatus =
+  | 'idle'
+  | 'creating'
+  | 'publishing'
+  | 'connected'
+  | 'reconnecting'
+  | 'failed'
+  | 'stopped';
+
+// Params changes while an update is waiting are coalesced into it, so one update can cover
+// many changes; its latency is measured from the first of them
+export type ParamsUpdateState = 'queued' | 'sent' | 'acked' | 'failed';
+
+export interface ParamsUpdateEvent {
+  id: number;
+  state: ParamsUpdateState;
+  latencyMs: number; // since queued
+  changedFields?: string[]; // top-level fields that changed since the last acked params (from 'sent' on)
+  partial?: boolean; // sent as a diff rather than the full params
+  error?: unknown; // 'failed' only
+}
+
+export interface ParamsUpdatePolicy {
+  mode: 'immediate' | 'debounce' | 'throttle';
+  intervalMs?: number; // debounce: quiet time before sending, throttle: min time between sends (default 300)
+}
+
+export type DaydreamVideoSource =
+  | {
+      type: 'stream';
+      stream: MediaStream;
+    }
+  | {
+      type: 'canvas';
+      canvas: HTMLCanvasElement;
+    }
+  | {
+      type: 'camera';
+      facingMode?: 'user' | 'environment'; // default 'user', ignored when deviceId is set
+      deviceId?: string; // exact camera (see useMediaDevices), falls back to facingMode if it's unplugged
+      idealWidth?: number; // capture resolution/frame rate hints, independent of the output size
+      idealHeight?: number; // (default: output width x height)
+      idealFrameRate?: number;
+      mirrorFront?: boolean; // mirror draw for front camera (user mode), default true
+    }
+  | {
+      type: 'file';
+      file: File | Blob | string; // File/Blob or a (CORS-enabled) URL, played through the hidden video element
+      loop?: boolean; // default true
+      playbackRate?: number; // default 1
+    }
+  | {
+      type: 'image';
+      image: File | Blob | string; // still image, File/Blob or a (CORS-enabled) URL
+    }
+  | {
+      type: 'composite';
+      layers: CompositeLayer[]; // drawn by zIndex, geometry and opacity can change on every setOptions
+      background?: string; // fill behind the layers, default black
+    }
+  | {
+      type: 'blank';
+    };
+
+export type DaydreamAudioSource =
+  | {
+      type: 'stream';
+      stream: MediaStream | MediaStreamTrack;
+    }
+  | {
+      type: 'microphone';
+      constraints?: MediaTrackConstraints;
+    }
+  | ({
+      type: 'graph'; // mic/stream + background music through noise gate, gain and compressor
+    } & AudioGraphOptions)
+  | {
+      type: 'silent';
+    };
+
+export interface DaydreamPublisherOptions<P extends object = StreamDiffusionParams> {
+  client: DaydreamClient<P>;
+
+  // Pipeline params, validated against the pipeline's schema and merged over its defaults
+  // (streamdiffusion: an SDXL turbo model with a depth, canny, and tile controlnet)
+  params?: P;
+  // Registered pipeline id or a definition (keep it stable across updates), defaults to streamdiffusion
+  pipeline?: string | PipelineDefinition<P>;
+  videoSource?: DaydreamVideoSource; // video frame source, defaults to blank
+  audioSource?: DaydreamAudioSource; // audio source, defaults to silent
+  audioMuted?: boolean; // push-to-talk: publish silence (or just the music bed) via replaceTrack, no renegotiation
+  // Canvas/display
+  size?: number; // long side of the output, default 512 (square unless aspectRatio/width/height are set)
+  width?: number; // explicit output width/height in px, override size
+  height?: number;
+  aspectRatio?: AspectRatio; // e.g. '9:16' portrait or '16:9' landscape, with size as the long side
+  fit?: FitMode; // how sources fill the output: 'cover', 'contain', 'letterbox' or 'stretch' (default from cover)
+  cover?: boolean; // legacy: crop-to-fill (true, default) or stretch (false) when fit isn't set
+  enforceSquare?: boolean; // set canvas to the output width x height (default true)
+  frameProcessors?: FrameProcessor[]; // run in order on each drawn frame before publishing (owned by caller, not in worker mode)
+  renderMode?: RenderMode; // 'raf' (default), 'video-frame' or 'worker'; read once on construction, falls back when unsupported
+  // Lifecycle & behavior
+  alwaysOn?: boolean; // keep alive in background on mobile (default false)
+  pipelineReadyTimeoutMs?: number; // max wait for pipeline output before params updates are sent anyway (default 30s)
+  resumeWindowMs?: number; // reuse the stream after background suspends and reconnects for this long (default 60s, 0 disables)
+  deleteStreamOnStop?: boolean; // end streams via client.deleteStream on stop() and when a suspended one expires (default true)
+  // WebRTC
+  iceServers?: RTCIceServer[]; // base ICE servers (default public STUN), client.getIceServers() results are appended
+  iceTransportPolicy?: RTCIceTransportPolicy; // 'relay' to test TURN-only paths (default 'all')
+  iceGathering?: IceGatheringStrategy; // 'complete' (default) waits for gathering, 'trickle' PATCHes candidates after the offer (opt-in)
+  iceGatheringTimeoutMs?: number; // max wait for 'complete' gathering, default 2000
+  // Encoder
+  videoCodec?: VideoCodec; // preferred codec via setCodecPreferences (browser default if unset/unsupported)
+  maxBitrate?: number; // bps cap for the published video (ceiling for adaptiveBitrate, default 2 Mbps there)
+  maxFramerate?: number; // fps cap for the published video
+  contentHint?: 'motion' | 'detail' | 'text' | ''; // encoder hint for the canvas video track
+  adaptiveBitrate?: boolean; // lower bitrate (and resolution) on packet loss, recover when clean (default false)
+  // Events
+  onReady?: (info: StreamInfo) => void;
+  onStatusChange?: (status: DaydreamPublisherStatus) => void;
+  onError?: (error: DaydreamCanvasError) => void; // typed classes from @/lib/errors, e.g. MediaPermissionError
+  onWhipRetry?: (attempt: number, error: unknown) => void;
+  onWhipRetryLimitExceeded?: () => void;
+  onConnectionStateChange?: (state: RTCPeerConnectionState) => void;
+  onCameraChange?: (camera: CameraCapabilities) => void; // camera (re)acquired, with capture settings and zoom/torch support
+  onAudioAnalyser?: (analyser: AnalyserNode | null) => void; // level metering for 'graph' audio (see useAudioLevel)
+  onStats?: (stats: PublishStats) => void; // periodic publish stats while connected
+  statsIntervalMs?: number; // default 1000
+  // Retries per operation, merged over DEFAULT_RETRY_POLICIES (shouldRetry defaults to isRetryableError)
+  retryPolicies?: Partial<Record<DaydreamOperation, Partial<RetryPolicy>>>;
+  // Params updates
+  paramsUpdatePolicy?: ParamsUpdatePolicy; // default immediate (one request in flight, coalesced to the latest)
+  onParamsApplied?: (event: ParamsUpdateEvent) => void; // lifecycle of each params update
+}
+
+// Options with defaults applied
+type ResolvedOptions<P extends object> = DaydreamPublisherOptions<P> &
+  Required<Pick<
+    DaydreamPublisherOptions<P>,
+    | 'pipeline'
+    | 'videoSource'
+    | 'audioSource'
+    | 'audioMuted'
+    | 'size'
+    | 'cover'
+    | 'enforceSquare'
+    | 'renderMode'
+    | 'alwaysOn'
+    | 'resumeWindowMs'
+    | 'deleteStreamOnStop'
+    | 'pipelineReadyTimeoutMs'
+    | 'iceTransportPolicy'
+    | 'iceGathering'
+    | 'iceGatheringTimeoutMs'
+    | 'adaptiveBitrate'
+    | 'statsIntervalMs'
+    | 'paramsUpdatePolicy'
+  >>;
+
+function resolveOptions<P extends object>(options: DaydreamPublisherOptions<P>): ResolvedOptions<P> {
+  return {
+    ...options,
+    pipeline: options.pipeline ?? 'streamdiffusion',
+    videoSource: options.videoSource ?? { type: 'blank' },
+    audioSource: options.audioSource ?? { type: 'silent' },
+    audioMuted: options.audioMuted ?? false,
+    size: options.size ?? 512,
+    cover: options.cover ?? true,
+    enforceSquare: options.enforceSquare ?? true,
+    renderMode: options.renderMode ?? 'raf',
+    alwaysOn: options.alwaysOn ?? false,
+    resumeWindowMs: options.resumeWindowMs ?? 60_000,
+    deleteStreamOnStop: options.deleteStreamOnStop ?? true,
+    pipelineReadyTimeoutMs: options.pipelineReadyTimeoutMs ?? 30_000,
+    iceTransportPolicy: options.iceTransportPolicy ?? 'all',
+    iceGathering: options.iceGathering ?? 'complete',
+    iceGatheringTimeoutMs: options.iceGatheringTimeoutMs ?? 2000,
+    adaptiveBitrate: options.adaptiveBitrate ?? false,
+    statsIntervalMs: options.statsIntervalMs ?? 1000,
+    paramsUpdatePolicy: options.paramsUpdatePolicy ?? { mode: 'immediate' },
+  };
+}
+
+// Params gate for clients that can't report stream status
+const FALLBACK_PARAMS_GATE_MS = 3000;
+
+// Ask the pipeline for an output matching a non-square canvas (multiples of 64), unless params set it
+function applyOutputDimensions<P extends object>(
+  pipeline: string,
+  params: P,
+  { width, height }: OutputDimensions
+): P {
+  if (pipeline !== 'streamdiffusion' || width === height) return params;
+  const snap = (n: number) => Math.max(64, Math.round(n / 64) * 64);
+  const sdParams = params as StreamDiffusionParams;
+  return { ...params, width: sdParams.width ?? snap(width), height: sdParams.height ?? snap(height) };
+}
+
+// Audio sender lookup that still works while push-to-talk has replaced its track with null
+const getAudioSender = (pc: RTCPeerConnection): RTCRtpSender | null => {
+  const transceiver = pc.getTransceivers().find(
+    (t) => t.sender.track?.kind === 'audio' || t.receiver.track?.kind === 'audio'
+  );
+  return transceiver?.sender ?? null;
+};
+
+// Utility: detect mobile-ish environments (for background auto-stop defaults)
+const isLikelyMobile = (): boolean => {
+  const hasTouch = 'ontouchstart' in window || navigator.maxTouchPoints > 0;
+  const mobileUA = /Android|webOS|iPhone|iPad|iPod|BlackBerry|IEMobile|Opera Mini/i.test(
+    navigator.userAgent
+  );
+  return hasTouch || mobileUA;
+};
+
+type Cleanup = () => void;
+
+export class DaydreamPublisher<P extends object = StreamDiffusionParams> {
+  readonly canvas: HTMLCanvasElement;
+  readonly renderMode: RenderMode; // resolved once: worker mode transfers canvas control, which can't be undone
+
+  private options: ResolvedOptions<P>;
+  private pipelineDef: PipelineDefinition<P>;
+  private currentStatus: DaydreamPublisherStatus = 'idle';
+  private destroyed = false;
+
+  // Source state (setup/teardown is driven by sync(), see effect())
+  private effects = new Map<string, { deps: unknown[]; cleanup?: Cleanup }>();
+  private syncScheduled = false;
+  private isStarted = false;
+  private renderWorker: Worker | null = null;
+  private hiddenVideo: HTMLVideoElement | null = null;
+  private ownedCameraStream: MediaStream | null = null;
+  private cameraRetryKey = 0;
+  private sourceImage: HTMLImageElement | null = null;
+  private compositor: Compositor | null = null;
+  private compositeScratch: HTMLCanvasElement | null = null;
+  private ownedAudioTrack: MediaStreamTrack | null = null;
+
+  // Publishing state
+  private pc: RTCPeerConnection | null = null;
+  private whipSession: WhipSession | null = null;
+  private publishStream: MediaStream | null = null;
+  private currentAudioTrack: MediaStreamTrack | null = null;
+  private builtInMicTrack: MediaStreamTrack | null = null;
+  private silentAudioTrack: MediaStreamTrack | null = null;
+  private audioContext: AudioContext | null = null;
+  private audioGraph: AudioGraph | null = null;
+
+  private streamId: string | null = null;
+  private playbackId: string | null = null;
+  private playbackUrl: string | null = null;
+  private readyForParamUpdates = false;
+  private readinessGeneration = 0; // bumped on start/teardown to cancel a pending readiness wait
+
+  // Retry state
+  private whipRetryCount = 0;
+  private connectionStableTimeout: ReturnType<typeof setTimeout> | null = null;
+  private isStopping = false;
+  private startPromise: Promise<void> | null = null; // in-flight start()
+  private isReconnecting = false;
+
+  // Flag for background auto-restart
+  private wasRunning = false;
+  // Stream kept across suspend/reconnect, re-published to within resumeWindowMs
+  private resumableStream: { stream: DaydreamStream; suspendedAt: number } | null = null;
+  private activeStream: DaydreamStream | null = null;
+
+  // Params update queue (serial, eventually consistent)
+  private pendingUpdate: { id: number; queuedAt: number } | null = null;
+  private nextUpdateId = 1;
+  // Last params the API acknowledged, diffed against for partial updates (null: send in full)
+  private ackedParams: P | null = null;
+  private paramsInFlight = false;
+  private paramsTimer: ReturnType<typeof setTimeout> | null = null;
+  private lastParamsSentAt = 0;
+
+  constructor(canvas: HTMLCanvasElement, options: DaydreamPublisherOptions<P>) {
+    this.canvas = canvas;
+    this.options = resolveOptions(options);
+    this.pipelineDef = this.resolvePipeline(this.options.pipeline);
+    this.renderMode = resolveRenderMode(this.options.renderMode);
+
+    const { width, height } = this.outputDimensions;
+    if (this.renderMode === 'worker' || this.options.enforceSquare) {
+      canvas.width = width;
+      canvas.height = height;
+    }
+
+    // Hand the canvas to the render worker (worker mode)
+    if (this.renderMode === 'worker') {
+      const offscreen = canvas.transferControlToOffscreen();
+      const worker = new Worker(new URL('./renderWorker.ts', import.meta.url), { type: 'module' });
+      const init: RenderWorkerMessage = { type: 'init', canvas: offscreen };
+      worker.postMessage(init, [offscreen]);
+      this.renderWorker = worker;
+    }
+
+    // Hidden video element for stream, camera and file sources (must be in the DOM for drawImage to work reliably)
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.autoplay = true;
+    video.style.position = 'fixed';
+    video.style.top = '-9999px';
+    video.style.left = '-9999px';
+    video.style.width = '1px';
+    video.style.height = '1px';
+    video.style.opacity = '0';
+    video.style.pointerEvents = 'none';
+    document.body.appendChild(video);
+    this.hiddenVideo = video;
+
+    this.sync();
+  }
+
+  get status(): DaydreamPublisherStatus {
+    return this.currentStatus;
+  }
+
+  // Replace all options (unset ones fall back to defaults). renderMode is fixed at construction
+  setOptions(options: DaydreamPublisherOptions<P>): void {
+    if (this.destroyed) return;
+    const previousPipeline = this.options.pipeline;
+    this.options = resolveOptions(options);
+    const pipelineChanged = this.options.pipeline !== previousPipeline;
+    if (pipelineChanged) {
+      this.pipelineDef = this.resolvePipeline(this.options.pipeline);
+    }
+    this.sync();
+    if (pipelineChanged) this.recreateStreamForPipeline();
+  }
+
+  // Change only the params, keeping the other options
+  setParams(params: P): void {
+    this.setOptions({ ...this.options, params });
+  }
+
+  getStreamInfo(): StreamInfo | null {
+    if (!this.streamId || !this.playbackId) return null;
+    return {
+      streamId: this.streamId,
+      playbackId: this.playbackId,
+      playbackUrl: this.playbackUrl,
+    };
+  }
+
+  // Playback controls for 'file' video sources (no-ops for other sources)
+  seek(timeSeconds: number): void {
+    const video = this.hiddenVideo;
+    if (!video || this.options.videoSource.type !== 'file') return;
+    video.currentTime = Math.max(0, Math.min(timeSeconds, video.duration || timeSeconds));
+  }
+
+  pause(): void {
+    if (this.options.videoSource.type !== 'file') return;
+    this.hiddenVideo?.pause();
+  }
+
+  async play(): Promise<void> {
+    if (this.options.videoSource.type !== 'file' || !this.hiddenVideo) return;
+    await this.hiddenVideo.play();
+  }
+
+  getCurrentTime(): number | null {
+    if (this.options.videoSource.type !== 'file' || !this.hiddenVideo) return null;
+    return this.hiddenVideo.currentTime;
+  }
+
+  // Camera controls for 'camera' video sources (null/rejects for other sources)
+  getCameraCapabilities(): CameraCapabilities | null {
+    const track = this.ownedCameraStream?.getVideoTracks()[0];
+    return track ? getCameraCapabilities(track) : null;
+  }
+
+  async applyCameraSettings(settings: CameraSettings): Promise<void> {
+    const track = this.ownedCameraStream?.getVideoTracks()[0];
+    if (!track) throw new Error('No active camera');
+    await applyCameraSettings(track, settings);
+  }
+
+  // Create a stream and start publishing. No-op if already started; joins a start in progress.
+  async start(): Promise<void> {
+    if (this.destroyed || this.pc) return; // destroyed or already running
+    if (this.startPromise) {
+      // Not stopped since: the start in progress is this one
+      if (!this.isStopping) return this.startPromise;
+      // Stopped while starting (e.g. restart()): that start bails out, so run again after it
+      await this.startPromise.catch(() => {});
+      return this.start();
+    }
+    this.startPromise = this.startPublishing().finally(() => {
+      this.startPromise = null;
+    });
+    return this.startPromise;
+  }
+
+  private async startPublishing(): Promise<void> {
+    try {
+      this.setStarted(true);
+      this.isStopping = false;
+      this.updateStatus('creating');
+
+      const { client, resumeWindowMs, pipelineReadyTimeoutMs } = this.options;
+      const pipelineId = this.pipelineDef.id;
+
+      // Create stream with initial params FIRST (with retry)
+      const createStream = () => {
+        const initialParams = this.prepareParams(this.options.params);
+        // Applied once the pipeline is up, so the first update once it is ready is sent in full
+        this.ackedParams = null;
+
+        // Stream creation with retry logic (retryPolicies.createStream, default 3 retries from 1s)
+        const policy = this.getRetryPolicy('createStream');
+        return retryWithBackoff(
+          () => client.createStream(pipelineId, initialParams),
+          {
+            ...policy,
+            onRetry: (attempt, error) => {
+              console.warn(`[DaydreamPublisher] Stream creation retry ${attempt}/${policy.maxRetries}:`, error);
+            },
+          }
+        );
+      };
+
+      // Resume the suspended stream if still within the window and still there, otherwise create a new one
+      const resumable = this.resumableStream;
+      this.resumableStream = null;
+      let streamData: DaydreamStream | null = null;
+      if (resumable && Date.now() - resumable.suspendedAt <= resumeWindowMs) {
+        streamData = await this.refreshStream(resumable.stream);
+      } else if (resumable) {
+        this.releaseStream(resumable.stream.id);
+      }
+      let resumed = !!streamData;
+      if (streamData) {
+        console.log(`[DaydreamPublisher] Resuming stream ${streamData.id}`);
+      } else {
+        streamData = await createStream();
+      }
+
+      // stop() was called while the stream was being created (before stop() could see its id)
+      if (this.isStopping) {
+        this.releaseStream(streamData.id);
+        return;
+      }
+
+      this.streamId = streamData.id;
+      this.playbackId = streamData.output_playback_id;
+      this.updateStatus('publishing');
+
+      const publishStream = await this.buildPublishStream();
+      // Media created for this start, stopped here if stop() lands while it is built or published
+      // (teardown() only releases what is still assigned when it runs)
+      const { silentAudioTrack, audioContext } = this;
+      const discardPublishMedia = () => {
+        publishStream.getVideoTracks().forEach((t) => t.stop()); // canvas capture
+        silentAudioTrack?.stop();
+        if (audioContext && audioContext.state !== 'closed') void audioContext.close().catch(() => {});
+        if (this.publishStream === publishStream) this.publishStream = null;
+        if (this.silentAudioTrack === silentAudioTrack) this.silentAudioTrack = null;
+        if (this.audioContext === audioContext) this.audioContext = null;
+      };
+      if (this.isStopping) {
+        discardPublishMedia();
+        return;
+      }
+
+      // WHIP publish with retry logic (retryPolicies.publish, default 2 retries from 1s)
+      const publishPolicy = this.getRetryPolicy('publish');
+      const reconnectPolicy = this.getRetryPolicy('reconnect');
+      const publish = async (whipUrl: string) => startWhipPublish(
+        whipUrl,
+        publishStream,
+        {
+          iceServers: await this.resolveIceServers(),
+          iceTransportPolicy: this.options.iceTransportPolicy,
+          iceGathering: this.options.iceGathering,
+          iceGatheringTimeoutMs: this.options.iceGatheringTimeoutMs,
+          videoCodec: this.options.videoCodec,
+          // A failed resume falls back to a new stream, so don't retry the old one
+          maxRetries: resumed ? 0 : publishPolicy.maxRetries,
+          retryDelayBaseMs: publishPolicy.baseDelayMs,
+          retryDelayMaxMs: publishPolicy.maxDelayMs,
+          shouldRetry: publishPolicy.shouldRetry,
+          onRetry: (attempt, error) => {
+            console.warn(`[DaydreamPublisher] WHIP connection retry ${attempt}/${publishPolicy.maxRetries}:`, error);
+            this.options.onWhipRetry?.(attempt, error);
+          },
+          onRetryLimitExceeded: () => {
+            if (resumed) return;
+            console.error('[DaydreamPublisher] WHIP retry limit exceeded');
+            this.updateStatus('failed');
+            this.options.onWhipRetryLimitExceeded?.();
+            this.reportError(new WhipNegotiationError('WHIP connection failed after retries', 'offer'));
+          },
+          onConnectionStateChange: (state) => {
+            this.options.onConnectionStateChange?.(state);
+
+            if (state === 'connected') {
+              this.isReconnecting = false;
+              this.updateStatus('connected');
+
+              // Connection established, schedule reset of retry count
+              if (this.connectionStableTimeout) {
+                clearTimeout(this.connectionStableTimeout);
+              }
+              this.connectionStableTimeout = setTimeout(() => {
+                this.whipRetryCount = 0;
+              }, 10000); // 10 seconds stable = reset retries
+            } else if (state === 'disconnected' || state === 'failed') {
+              // Cancel stable reset
+              if (this.connectionStableTimeout) {
+                clearTimeout(this.connectionStableTimeout);
+                this.connectionStableTimeout = null;
+              }
+
+              if (this.isStopping) return;
+
+              const maxRetries = reconnectPolicy.maxRetries;
+              if (this.whipRetryCount < maxRetries) {
+                this.whipRetryCount++;
+                this.isReconnecting = true;
+                this.updateStatus('reconnecting');
+                const delay = Math.min(
+                  reconnectPolicy.baseDelayMs * Math.pow(2, this.whipRetryCount - 1),
+                  reconnectPolicy.maxDelayMs ?? Number.POSITIVE_INFINITY
+                );
+                console.log(`[DaydreamPublisher] Connection lost, retrying in ${delay}ms... (Attempt ${this.whipRetryCount}/${maxRetries})`);
+
+                setTimeout(() => {
+                  if (!this.isStopping) {
+                    this.reconnect().catch(() => {
+                      // Already reported via onError
+                    });
+                  }
+                }, delay);
+              } else {
+                console.error('[DaydreamPublisher] Connection lost, retry limit exceeded');
+                this.isReconnecting = false;
+                this.updateStatus('failed');
+                this.reportError(new WhipNegotiationError('Connection lost, retry limit exceeded', 'connection'));
+                this.options.onWhipRetryLimitExceeded?.();
+              }
+            }
+          },
+        }
+      );
+
+      let session: WhipSession;
+      try {
+        session = await publish(streamData.whip_url);
+      } catch (e) {
+        if (this.isStopping) {
+          discardPublishMedia();
+          return;
+        }
+        if (!resumed) throw e;
+        // The old stream is gone (expired or ended server-side): fall back to a fresh one
+        console.warn('[DaydreamPublisher] Resume failed, creating a new stream:', e);
+        resumed = false;
+        this.releaseStream(streamData.id);
+        streamData = await createStream();
+        if (this.isStopping) {
+          this.releaseStream(streamData.id);
+          discardPublishMedia();
+          return;
+        }
+        this.streamId = streamData.id;
+        this.playbackId = streamData.output_playback_id;
+        session = await publish(streamData.whip_url);
+      }
+
+      if (this.isStopping) {
+        void session.close();
+        discardPublishMedia();
+        return;
+      }
+
+      this.whipSession = session;
+      this.pc = session.pc;
+      this.playbackUrl = session.playbackUrl;
+      this.activeStream = streamData;
+
+      // Notify caller once we have both IDs and playback URL
+      this.options.onReady?.({
+        streamId: streamData.id,
+        playbackId: streamData.output_playback_id,
+        playbackUrl: this.playbackUrl,
+        resumed,
+      });
+
+      // Hold params updates until the pipeline produces output, then flush the queue.
+      // Clients without getStreamStatus fall back to a fixed delay
+      this.readyForParamUpdates = false;
+      const generation = ++this.readinessGeneration;
+      const isCancelled = () => this.readinessGeneration !== generation;
+      const readyStreamId = streamData.id;
+      void (async () => {
+        const waitStartedAt = performance.now();
+        let ready = true;
+        if (client.getStreamStatus) {
+          ready = await waitForStreamReady(() => client.getStreamStatus!(readyStreamId), {
+            timeoutMs: pipelineReadyTimeoutMs,
+            isCancelled,
+          });
+        } else {
+          await new Promise(resolve => setTimeout(resolve, FALLBACK_PARAMS_GATE_MS));
+        }
+        if (isCancelled()) return;
+
+        const waitedMs = Math.round(performance.now() - waitStartedAt);
+        if (ready) {
+          console.log(`[DaydreamPublisher] Pipeline ready after ${waitedMs}ms`);
+        } else {
+          console.warn(`[DaydreamPublisher] Pipeline not ready after ${waitedMs}ms, sending params anyway`);
+        }
+        this.readyForParamUpdates = true;
+        this.enqueueParamsUpdate();
+      })();
+    } catch (e) {
+      this.isReconnecting = false;
+      this.updateStatus('failed');
+      this.reportError(toError(e));
+      throw e;
+    }
+  }
+
+  // Stop publishing and release owned media (camera, mic, silent audio)
+  async stop(): Promise<void> {
+    this.isReconnecting = false;
+    // The live stream, or the one kept by suspend()
+    const streamId = this.streamId ?? this.resumableStream?.stream.id ?? null;
+    this.resumableStream = null;
+    await this.teardown();
+    this.releaseStream(streamId);
+    this.setStatus(this.currentStatus === 'idle' ? 'idle' : 'stopped');
+  }
+
+  // Stop publishing but keep the Daydream stream; start() within resumeWindowMs re-publishes to it
+  async suspend(): Promise<void> {
+    this.isReconnecting = false;
+    if (!this.keepStreamForResume()) this.releaseStream(this.streamId);
+    await this.teardown();
+    this.setStatus(this.currentStatus === 'idle' ? 'idle' : 'stopped');
+  }
+
+  // Stop and start again with a fresh stream
+  async restart(): Promise<void> {
+    await this.stop();
+    await this.start();
+  }
+
+  // Stop, release the render worker and hidden video element. The publisher can't be restarted
+  async destroy(): Promise<void> {
+    if (this.destroyed) return;
+    const stopped = this.stop();
+    this.destroyed = true;
+    this.effects.forEach(({ cleanup }) => cleanup?.());
+    this.effects.clear();
+
+    this.renderWorker?.terminate();
+    this.renderWorker = null;
+    if (this.hiddenVideo) {
+      this.hiddenVideo.srcObject = null;
+      this.hiddenVideo.parentNode?.removeChild(this.hiddenVideo);
+      this.hiddenVideo = null;
+    }
+    await stopped;
+  }
+
+  // Source and connection side effects, re-run when their dependencies change
+  private sync(): void {
+    if (this.destroyed) return;
+    const options = this.options;
+    const { videoSource, audioSource, enforceSquare } = options;
+    const { width: outputWidth, height: outputHeight } = this.outputDimensions;
+    const fitMode = this.fitMode;
+    const fps = this.fps;
+    const isConnected = this.currentStatus === 'connected';
+    const sourceVideoStream = videoSource.type === 'stream' ? videoSource.stream : null;
+    const sourceFile = videoSource.type === 'file' ? videoSource.file : null;
+
+    // Enqueue an update attempt (serial; respects init gate and in-flight)
+    this.effect('params', [options.params], () => {
+      this.enqueueParamsUpdate();
+    });
+
+    // Ensure canvas size (the render worker owns it in worker mode)
+    this.effect('canvasSize', [outputWidth, outputHeight, enforceSquare], () => {
+      if (this.renderMode === 'worker' || !enforceSquare) return;
+      if (this.canvas.width !== outputWidth) this.canvas.width = outputWidth;
+      if (this.canvas.height !== outputHeight) this.canvas.height = outputHeight;
+    });
+
+    this.effect('workerConfig', [outputWidth, outputHeight, fitMode, this.needMirror, fps], () => {
+      if (!this.renderWorker) return;
+      const config: RenderWorkerMessage = {
+        type: 'config',
+        width: outputWidth,
+        height: outputHeight,
+        fps,
+        draw: { width: outputWidth, height: outputHeight, fit: fitMode, mirror: this.needMirror },
+      };
+      this.renderWorker.postMessage(config);
+    });
+
+    this.effect('frameProcessorsWarning', [options.frameProcessors], () => {
+      if (this.renderMode === 'worker' && options.frameProcessors?.length) {
+        console.warn('[DaydreamPublisher] frameProcessors are not applied in worker render mode');
+      }
+    });
+
+    // Optionally obtain camera stream internally
+    const camera = videoSource.type === 'camera' ? videoSource : null;
+    this.effect('camera', [
+      videoSource.type,
+      camera?.facingMode,
+      camera?.deviceId,
+      camera?.idealWidth,
+      camera?.idealHeight,
+      camera?.idealFrameRate,
+      this.cameraRetryKey,
+      outputWidth,
+      outputHeight,
+      this.isStarted,
+    ], () => this.acquireCamera());
+
+    // Report the active camera's settings and zoom/torch support
+    this.effect('cameraChange', [this.ownedCameraStream], () => {
+      const track = this.ownedCameraStream?.getVideoTracks()[0];
+      if (!track) return;
+      this.options.onCameraChange?.(getCameraCapabilities(track));
+    });
+
+    // Update video source when stream changes
+    this.effect('videoElementStream', [videoSource.type, sourceVideoStream, this.ownedCameraStream, sourceFile], () => {
+      const video = this.hiddenVideo;
+      if (!video) return;
+
+      // canvas, image, composite and blank types don't need to use the hidden video element
+      const effectiveStream = videoSource.type === 'stream'
+        ? sourceVideoStream
+        : videoSource.type === 'camera' ? this.ownedCameraStream : null;
+
+      if ((videoSource.type === 'file' && sourceFile) || !effectiveStream) {
+        video.srcObject = null;
+        return;
+      }
+
+      video.srcObject = effectiveStream;
+      video.play().catch((e) => {
+        // Silent fail - autoplay handles this
+        console.error('Error playing video source', e);
+      });
+    });
+
+    // Play 'file' sources through the hidden video element
+    this.effect('videoFile', [videoSource.type, sourceFile], () => {
+      const video = this.hiddenVideo;
+      if (!video || !sourceFile) return;
+
+      const objectUrl = typeof sourceFile === 'string' ? null : URL.createObjectURL(sourceFile);
+      video.crossOrigin = 'anonymous'; // keep the canvas untainted so captureStream works
+      video.src = objectUrl ?? (sourceFile as string);
+      video.onerror = () => {
+        this.reportError(new Error(`Failed to load video file: ${video.error?.message ?? 'unknown error'}`));
+      };
+      video.play().catch((e) => {
+        console.error('Error playing video file', e);
+      });
+
+      return () => {
+        video.onerror = null;
+        video.pause();
+        video.removeAttribute('src');
+        video.load();
+        if (objectUrl) URL.revokeObjectURL(objectUrl);
+      };
+    });
+
+    const file = videoSource.type === 'file' ? videoSource : null;
+    this.effect('videoFilePlayback', [videoSource.type, sourceFile, file?.loop, file?.playbackRate], () => {
+      if (!this.hiddenVideo || !file) return;
+      this.hiddenVideo.loop = file.loop ?? true;
+      this.hiddenVideo.playbackRate = file.playbackRate ?? 1;
+    });
+
+    // Load 'image' sources
+    const sourceImageInput = videoSource.type === 'image' ? videoSource.image : null;
+    this.effect('image', [sourceImageInput], () => {
+      if (!sourceImageInput) return;
+
+      const objectUrl = typeof sourceImageInput === 'string' ? null : URL.createObjectURL(sourceImageInput);
+      const img = new Image();
+      img.crossOrigin = 'anonymous';
+      img.onload = () => {
+        this.sourceImage = img;
+      };
+      img.onerror = () => this.reportError(new Error('Failed to load image source'));
+      img.src = objectUrl ?? (sourceImageInput as string);
+
+      return () => {
+        img.onload = null;
+        img.onerror = null;
+        this.sourceImage = null;
+        if (objectUrl) URL.revokeObjectURL(objectUrl);
+      };
+    });
+
+    // Compositor for 'composite' sources, owns the media of camera/screen/file layers
+    const compositeLayers = videoSource.type === 'composite' ? videoSource.layers : null;
+    this.effect('compositor', [videoSource.type, this.isStarted], () => {
+      if (videoSource.type !== 'composite' || !this.isStarted) return;
+      const compositor = createCompositor((e) => this.reportError(toError(e)));
+      compositor.setLayers(compositeLayers ?? []);
+      this.compositor = compositor;
+      return () => {
+        compositor.dispose();
+        this.compositor = null;
+      };
+    });
+
+    // Live layer edits: media is only reacquired for added layers or changed sources
+    this.effect('compositeLayers', [compositeLayers], () => {
+      this.compositor?.setLayers(compositeLayers ?? []);
+    });
+
+    // Worker mode: feed camera/stream frames straight to the worker, or let it paint blank frames
+    this.effect('workerTrack', [this.isStarted, videoSource.type, sourceVideoStream, this.ownedCameraStream], () => {
+      const worker = this.renderWorker;
+      if (!worker || !this.isStarted) return;
+
+      const stopMessage: RenderWorkerMessage = { type: 'stop' };
+      if (videoSource.type === 'blank') {
+        const message: RenderWorkerMessage = { type: 'blank' };
+        worker.postMessage(message);
+        return () => worker.postMessage(stopMessage);
+      }
+      if (videoSource.type !== 'stream' && videoSource.type !== 'camera') return;
+
+      const stream = videoSource.type === 'stream' ? sourceVideoStream : this.ownedCameraStream;
+      const track = stream?.getVideoTracks()[0];
+      if (!track) return;
+
+      // Clone so the processor doesn't starve the hidden video element of frames
+      const clone = track.clone();
+      const readable = createVideoFrameReadable(clone);
+      const message: RenderWorkerMessage = { type: 'track', readable };
+      worker.postMessage(message, [readable]);
+      return () => {
+        worker.postMessage(stopMessage);
+        clone.stop();
+      };
+    });
+
+    this.effect('renderLoop', [this.isStarted, fps, videoSource.type], () => this.startRenderLoop(fps));
+
+    // Acquire audio track based on audioSource type (setup/teardown)
+    const graphOptions = audioSource.type === 'graph' ? audioSource : null;
+    this.effect('audio', [
+      audioSource.type,
+      audioSource.type === 'stream' ? audioSource.stream : null,
+      JSON.stringify(audioSource.type === 'microphone' ? audioSource.constraints ?? null : null),
+      // Graph inputs rebuild the graph; gain/compressor/gate/music volume update it live
+      JSON.stringify(graphOptions?.microphone ?? null),
+      graphOptions?.stream ?? null,
+      graphOptions?.music?.src ?? null,
+      graphOptions?.music?.loop,
+      this.isStarted,
+    ], () => this.acquireAudio());
+
+    const graphSettingsKey = graphOptions
+      ? JSON.stringify({
+          gain: graphOptions.gain,
+          compressor: graphOptions.compressor,
+          noiseGate: graphOptions.noiseGate,
+          musicVolume: graphOptions.music?.volume,
+        })
+      : null;
+    this.effect('audioGraphSettings', [graphSettingsKey], () => {
+      if (!this.audioGraph || !graphOptions) return;
+      this.audioGraph.update({
+        gain: graphOptions.gain ?? 1,
+        compressor: graphOptions.compressor,
+        noiseGate: graphOptions.noiseGate,
+        musicVolume: graphOptions.music?.volume ?? 0.3,
+      });
+    });
+
+    this.effect('replaceAudioTrack', [this.ownedAudioTrack], () => this.replaceAudioTrack());
+
+    // Apply encoder limits once connected (and on every reconnect), optionally adapting bitrate to loss
+    const { adaptiveBitrate, maxBitrate, maxFramerate } = options;
+    this.effect('encoder', [isConnected, adaptiveBitrate, maxBitrate, maxFramerate], () => {
+      const pc = this.pc;
+      if (!isConnected || !pc) return;
+
+      const ceiling = adaptiveBitrate ? (maxBitrate ?? DEFAULT_MAX_BITRATE) : maxBitrate;
+      applySenderEncodingLimits(pc, { maxBitrate: ceiling, maxFramerate }).catch((e) => {
+        console.warn('[DaydreamPublisher] Failed to apply encoder limits:', e);
+      });
+
+      if (!adaptiveBitrate) return;
+      return startAdaptiveBitrate(pc, {
+        maxBitrate: ceiling,
+        onBitrateChange: (bitrate, loss, scale) => {
+          console.log(`[DaydreamPublisher] Adaptive bitrate: ${Math.round(bitrate / 1000)} kbps, resolution scaled down ${scale}x (loss ${(loss * 100).toFixed(1)}%)`);
+        },
+      });
+    });
+
+    // Push-to-talk: swap the sent audio without touching the publish stream or renegotiating
+    this.effect('audioMuted', [isConnected, options.audioMuted], () => {
+      const pc = this.pc;
+      if (!isConnected || !pc) return;
+      const sender = getAudioSender(pc);
+      const track = this.currentAudioTrack;
+      if (!sender || !track) return;
+      const next = options.audioMuted ? (this.audioGraph?.bedTrack ?? null) : track;
+      if (sender.track === next) return;
+      sender.replaceTrack(next).catch((e) => {
+        console.warn('[DaydreamPublisher] Failed to toggle audio mute:', e);
+      });
+    });
+
+    // Periodic publish stats while connected
+    this.effect('stats', [isConnected, !!options.onStats, options.statsIntervalMs], () => {
+      const pc = this.pc;
+      if (!isConnected || !pc || !options.onStats) return;
+
+      let previous: PublishStats | null = null;
+      const intervalId = setInterval(() => {
+        collectPublishStats(pc, previous)
+          .then((stats) => {
+            previous = stats;
+            this.options.onStats?.(stats);
+          })
+          .catch((e) => {
+            console.warn('[DaydreamPublisher] Failed to collect stats:', e);
+          });
+      }, options.statsIntervalMs);
+      return () => clearInterval(intervalId);
+    });
+
+    // Background auto-stop/start (mobile default)
+    this.effect('visibility', [options.alwaysOn], () => {
+      if (options.alwaysOn || !isLikelyMobile()) return; // caller opted out, or desktop
+
+      const handleVisibility = () => {
+        if (document.hidden) {
+          if (this.pc) {
+            this.wasRunning = true;
+            void this.suspend();
+          } else {
+            this.wasRunning = false;
+          }
+        } else if (this.wasRunning) {
+          this.wasRunning = false;
+          void this.start().catch(() => {
+            // Already reported via onError
+          });
+        }
+      };
+
+      document.addEventListener('visibilitychange', handleVisibility);
+      return () => document.removeEventListener('visibilitychange', handleVisibility);
+    });
+  }
+
+  // Run setup when deps change (shallow, by identity), after the previous run's cleanup
+  private effect(key: string, deps: unknown[], setup: () => Cleanup | void): void {
+    const current = this.effects.get(key);
+    if (current && current.deps.length === deps.length && current.deps.every((dep, i) => Object.is(dep, deps[i]))) {
+      return;
+    }
+    current?.cleanup?.();
+    this.effects.set(key, { deps, cleanup: setup() || undefined });
+  }
+
+  // Source state changed: re-sync once the current call stack is done
+  private invalidate(): void {
+    if (this.syncScheduled) return;
+    this.syncScheduled = true;
+    queueMicrotask(() => {
+      this.syncScheduled = false;
+      this.sync();
+    });
+  }
+
+  private resolvePipeline(pipeline: string | PipelineDefinition<P>): PipelineDefinition<P> {
+    return typeof pipeline === 'string' ? getPipeline<P>(pipeline) : pipeline;
+  }
+
+  private get outputDimensions(): OutputDimensions {
+    const { size, width, height, aspectRatio } = this.options;
+    return resolveOutputDimensions({ size, width, height, aspectRatio });
+  }
+
+  private get fitMode(): FitMode {
+    return this.options.fit ?? (this.options.cover ? 'cover' : 'stretch');
+  }
+
+  // Try to match the source frame rate, default to 24 (camera, canvas sources and blank frames)
+  private get fps(): number {
+    const { videoSource } = this.options;
+    if (videoSource.type === 'stream' && videoSource.stream) {
+      return videoSource.stream.getVideoTracks()[0]?.getSettings().frameRate || 24;
+    }
+    return 24;
+  }
+
+  // Mirror for front camera (user-facing). With a deviceId, trust the track; desktop webcams report no facingMode
+  private get needMirror(): boolean {
+    const { videoSource } = this.options;
+    if (videoSource.type !== 'camera' || !(videoSource.mirrorFront ?? true)) return false;
+    const trackFacingMode = this.ownedCameraStream?.getVideoTracks()[0]?.getSettings().facingMode;
+    const facingMode = videoSource.facingMode ?? (videoSource.deviceId ? trackFacingMode : undefined) ?? 'user';
+    return facingMode === 'user';
+  }
+
+  private setStarted(started: boolean): void {
+    if (this.isStarted === started) return;
+    this.isStarted = started;
+    this.invalidate();
+  }
+
+  private setStatus(next: DaydreamPublisherStatus): void {
+    if (this.currentStatus === next) return;
+    this.currentStatus = next;
+    this.options.onStatusChange?.(next);
+    this.invalidate();
+  }
+
+  // While reconnecting, keep reporting 'reconnecting' until the new connection is up
+  private updateStatus(next: DaydreamPublisherStatus): void {
+    if (this.isReconnecting && (next === 'creating' || next === 'publishing')) return;
+    this.setStatus(next);
+  }
+
+  private reportError(error: DaydreamCanvasError): void {
+    this.options.onError?.(error);
+  }
+
+  private getRetryPolicy(operation: DaydreamOperation): RetryPolicy {
+    return { ...DEFAULT_RETRY_POLICIES[operation], ...this.options.retryPolicies?.[operation] };
+  }
+
+  // Swap the owned camera stream, stopping the previous one
+  private setOwnedCameraStream(stream: MediaStream | null): void {
+    const previous = this.ownedCameraStream;
+    if (previous === stream) return;
+    previous?.getTracks().forEach(t => t.stop());
+    this.ownedCameraStream = stream;
+    this.invalidate();
+  }
+
+  private setOwnedAudioTrack(track: MediaStreamTrack | null): void {
+    if (this.ownedAudioTrack === track) return;
+    this.ownedAudioTrack = track;
+    this.invalidate();
+  }
+
+  private acquireCamera(): Cleanup | void {
+    // Clean up previous camera stream before starting new one
+    // This is crucial when switching between front/back cameras
+    this.setOwnedCameraStream(null);
+
+    const { videoSource } = this.options;
+    if (videoSource.type !== 'camera' || !this.isStarted) return;
+
+    const { facingMode, deviceId, idealWidth, idealHeight, idealFrameRate } = videoSource;
+    const { width: outputWidth, height: outputHeight } = this.outputDimensions;
+    let cancelled = false;
+    let localStream: MediaStream | null = null;
+
+    const retry = () => {
+      this.cameraRetryKey++;
+      this.invalidate();
+    };
+    const onTrackEnded = () => {
+      // Unplugged or revoked: request the camera again (falls back to facingMode if the device is gone)
+      if (cancelled) return;
+      console.warn('[DaydreamPublisher] Camera track ended, reacquiring');
+      retry();
+    };
+
+    (async () => {
+      const constraintOptions = {
+        facingMode,
+        width: idealWidth ?? outputWidth,
+        height: idealHeight ?? outputHeight,
+        frameRate: idealFrameRate,
+      };
+      try {
+        let stream: MediaStream;
+        try {
+          stream = await navigator.mediaDevices.getUserMedia({
+            video: buildCameraVideoConstraints({ ...constraintOptions, deviceId }),
+            audio: false,
+          });
+        } catch (e) {
+          const name = e instanceof DOMException ? e.name : '';
+          if (!deviceId || (name !== 'OverconstrainedError' && name !== 'NotFoundError')) throw e;
+          console.warn(`[DaydreamPublisher] Camera ${deviceId} unavailable, falling back to facingMode`);
+          stream = await navigator.mediaDevices.getUserMedia({
+            video: buildCameraVideoConstraints(constraintOptions),
+            audio: false,
+          });
+        }
+        if (cancelled) {
+          stream.getTracks().forEach(t => t.stop());
+          return;
+        }
+        localStream = stream;
+        stream.getVideoTracks()[0]?.addEventListener('ended', onTrackEnded);
+        this.setOwnedCameraStream(stream);
+      } catch (e) {
+        console.error('[DaydreamPublisher] Failed to get camera:', e);
+        this.reportError(toMediaError(e, 'camera'));
+      }
+    })();
+
+    // Hot-plug: switch back once the requested device reappears after a fallback
+    const onDeviceChange = () => {
+      const currentDeviceId = localStream?.getVideoTracks()[0]?.getSettings().deviceId;
+      if (deviceId && currentDeviceId !== deviceId) retry();
+    };
+    navigator.mediaDevices.addEventListener?.('devicechange', onDeviceChange);
+
+    return () => {
+      cancelled = true;
+      navigator.mediaDevices.removeEventListener?.('devicechange', onDeviceChange);
+      localStream?.getVideoTracks()[0]?.removeEventListener('ended', onTrackEnded);
+      this.setOwnedCameraStream(null);
+      localStream?.getTracks().forEach(t => t.stop());
+    };
+  }
+
+  // Draw one frame from the active source, if available
+  private draw(): void {
+    const ctx = this.canvas.getContext('2d', { alpha: false });
+    if (!ctx) return;
+    const { videoSource, enforceSquare } = this.options;
+    const { width: outputWidth, height: outputHeight } = this.outputDimensions;
+    const drawWidth = enforceSquare ? outputWidth : this.canvas.width;
+    const drawHeight = enforceSquare ? outputHeight : this.canvas.height;
+    const drawOptions = { width: drawWidth, height: drawHeight, fit: this.fitMode, mirror: false };
+
+    // Draw black frame (type: 'blank')
+    if (videoSource.type === 'blank') {
+      drawBlankFrame(ctx);
+    }
+    // Draw from source canvas (type: 'canvas')
+    else if (videoSource.type === 'canvas') {
+      const { width: srcW, height: srcH } = videoSource.canvas;
+      if (srcW <= 0 || srcH <= 0) return;
+      drawSourceFrame(ctx, videoSource.canvas, srcW, srcH, drawOptions);
+    }
+    // Draw still image (type: 'image')
+    else if (videoSource.type === 'image') {
+      const image = this.sourceImage;
+      if (!image) return;
+      drawSourceFrame(ctx, image, image.naturalWidth, image.naturalHeight, drawOptions);
+    }
+    // Draw layered sources (type: 'composite')
+    else if (videoSource.type === 'composite') {
+      if (!this.compositor) return;
+      this.compositor.draw(ctx, drawWidth, drawHeight, videoSource.background);
+    }
+    // Draw from hidden video element (types: 'stream', 'camera' or 'file')
+    else if (videoSource.type === 'stream' || videoSource.type === 'camera' || videoSource.type === 'file') {
+      const v = this.hiddenVideo;
+      // Video element exists but not ready - skip draw
+      if (!v || v.readyState < v.HAVE_CURRENT_DATA) return;
+      const srcW = v.videoWidth;
+      const srcH = v.videoHeight;
+      if (srcW <= 0 || srcH <= 0) return;
+      drawSourceFrame(ctx, v, srcW, srcH, { ...drawOptions, mirror: this.needMirror });
+    } else {
+      this.reportError(new Error(`Unknown video source type: ${(videoSource as { type: string }).type}`));
+      return;
+    }
+
+    runFrameProcessors(this.options.frameProcessors, ctx, {
+      width: this.canvas.width,
+      height: this.canvas.height,
+      timestamp: performance.now(),
+    });
+  }
+
+  // Worker mode: canvas, file, image and composite sources live on the main thread, so post their frames as ImageBitmaps
+  private postCanvasFrame(): void {
+    const worker = this.renderWorker;
+    if (!worker) return;
+    const { videoSource } = this.options;
+
+    let frameSource: HTMLCanvasElement | HTMLVideoElement | HTMLImageElement | null =
+      videoSource.type === 'canvas' ? videoSource.canvas : null;
+    if (videoSource.type === 'file') {
+      const video = this.hiddenVideo;
+      if (!video || video.readyState < video.HAVE_CURRENT_DATA) return;
+      frameSource = video;
+    } else if (videoSource.type === 'image') {
+      frameSource = this.sourceImage;
+    } else if (videoSource.type === 'composite') {
+      if (!this.compositor) return;
+      // Composite into an output-sized scratch canvas, which the worker then draws 1:1
+      const { width: outputWidth, height: outputHeight } = this.outputDimensions;
+      if (!this.compositeScratch) {
+        this.compositeScratch = document.createElement('canvas');
+      }
+      const scratch = this.compositeScratch;
+      if (scratch.width !== outputWidth) scratch.width = outputWidth;
+      if (scratch.height !== outputHeight) scratch.height = outputHeight;
+      const scratchCtx = scratch.getContext('2d', { alpha: false });
+      if (!scratchCtx) return;
+      this.compositor.draw(scratchCtx, outputWidth, outputHeight, videoSource.background);
+      frameSource = scratch;
+    }
+    if (!frameSource) return;
+
+    createImageBitmap(frameSource)
+      .then((bitmap) => {
+        const message: RenderWorkerMessage = { type: 'bitmap', bitmap };
+        worker.postMessage(message, [bitmap]);
+      })
+      .catch((e) => {
+        console.warn('[DaydreamPublisher] Failed to capture source canvas frame:', e);
+      });
+  }
+
+  // Render-copy loop based on sources
+  private startRenderLoop(fps: number): Cleanup | void {
+    if (!this.isStarted) return;
+    const sourceType = this.options.videoSource.type;
+    // The worker draws camera/stream/blank sources itself; other sources need main-thread ticks
+    if (this.renderMode === 'worker' && (sourceType === 'camera' || sourceType === 'stream' || sourceType === 'blank')) return;
+
+    let cancelled = false;
+
+    // Source-synced draws: one draw per presented video frame
+    const video = this.hiddenVideo;
+    if (
+      this.renderMode === 'video-frame' &&
+      video &&
+      (sourceType === 'stream' || sourceType === 'camera' || sourceType === 'file')
+    ) {
+      const onFrame = () => {
+        if (cancelled) return;
+        this.draw();
+        handle = video.requestVideoFrameCallback(onFrame);
+      };
+      let handle = video.requestVideoFrameCallback(onFrame);
+      return () => {
+        cancelled = true;
+        video.cancelVideoFrameCallback(handle);
+      };
+    }
+
+    const renderFrame = this.renderMode === 'worker' ? () => this.postCanvasFrame() : () => this.draw();
+    const intervalMs = 1000 / Math.max(1, fps);
+    let lastTick = performance.now();
+    let rafId: number | null = null;
+
+    const tick = () => {
+      if (cancelled) return;
+
+      try {
+        const now = performance.now();
+        const elapsed = now - lastTick;
+
+        if (elapsed < intervalMs) {
+          return;
+        }
+        lastTick = now - (elapsed % intervalMs);
+        renderFrame();
+      } finally {
+        rafId = requestAnimationFrame(tick);
+      }
+    };
+    rafId = requestAnimationFrame(tick);
+
+    return () => {
+      cancelled = true;
+      if (rafId !== null) cancelAnimationFrame(rafId);
+    };
+  }
+
+  // Attempt to create a silent audio track
+  private createSilentAudioTrack(): MediaStreamTrack | null {
+    try {
+      const audioContext = new (window.AudioContext || (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext)();
+      this.audioContext = audioContext;
+      const oscillator = audioContext.createOscillator();
+      const gain = audioContext.createGain();
+      gain.gain.value = 0; // silent
+      oscillator.connect(gain);
+      const dest = audioContext.createMediaStreamDestination();
+      gain.connect(dest);
+      oscillator.start();
+      return dest.stream.getAudioTracks()[0] || null;
+    } catch (e) {
+      // Likely blocked by autoplay policy; continue without audio
+      return null;
+    }
+  }
+
+  private acquireAudio(): Cleanup | void {
+    if (!this.isStarted) {
+      // Clean up when stopped
+      this.setOwnedAudioTrack(null);
+      return;
+    }
+
+    const { audioSource } = this.options;
+    let cancelled = false;
+    let ownedTrack: MediaStreamTrack | null = null;
+    let ownedGraph: AudioGraph | null = null;
+
+    (async () => {
+      if (audioSource.type === 'stream') {
+        // External audio stream - extract track but don't own it
+        const source = audioSource.stream;
+        if (source instanceof MediaStream) {
+          if (!cancelled) this.setOwnedAudioTrack(source.getAudioTracks()[0] || null);
+        } else if ('kind' in source && source.kind === 'audio') {
+          if (!cancelled) this.setOwnedAudioTrack(source);
+        }
+      } else if (audioSource.type === 'microphone') {
+        // Request microphone - we own this track
+        try {
+          const micStream = await navigator.mediaDevices.getUserMedia({
+            audio: audioSource.constraints || { echoCancellation: true, noiseSuppression: true },
+            video: false,
+          });
+          const micTrack = micStream.getAudioTracks()[0];
+          if (micTrack && !cancelled) {
+            ownedTrack = micTrack;
+            this.builtInMicTrack = micTrack;
+            this.setOwnedAudioTrack(micTrack);
+          }
+        } catch (e) {
+          this.reportError(toMediaError(e, 'microphone'));
+          if (!cancelled) this.setOwnedAudioTrack(null);
+        }
+      } else if (audioSource.type === 'graph') {
+        // Processed mix - we own the graph and its tracks
+        try {
+          const graph = await createAudioGraph(audioSource, (e) => this.reportError(toError(e)));
+          if (cancelled) {
+            graph.dispose();
+            return;
+          }
+          ownedGraph = graph;
+          this.audioGraph = graph;
+          this.options.onAudioAnalyser?.(graph.analyser);
+          this.setOwnedAudioTrack(graph.track);
+        } catch (e) {
+          this.reportError(toMediaError(e, 'microphone'));
+          if (!cancelled) this.setOwnedAudioTrack(null);
+        }
+      } else if (audioSource.type === 'silent') {
+        // Silent audio - we own this track
+        const silent = this.createSilentAudioTrack();
+        if (silent && !cancelled) {
+          ownedTrack = silent;
+          this.silentAudioTrack = silent;
+          this.setOwnedAudioTrack(silent);
+        } else if (!cancelled) {
+          this.setOwnedAudioTrack(null);
+        }
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+      // Only stop tracks we own (microphone and silent)
+      if (ownedTrack) {
+        try {
+          ownedTrack.stop();
+        } catch (e) {
+          /* Track may already be stopped */
+        }
+      }
+      if (ownedGraph) {
+        ownedGraph.dispose();
+        if (this.audioGraph === ownedGraph) this.audioGraph = null;
+        this.options.onAudioAnalyser?.(null);
+      }
+      this.setOwnedAudioTrack(null);
+    };
+  }
+
+  // Replace the published audio track when the owned one changes
+  private replaceAudioTrack(): void {
+    const track = this.ownedAudioTrack;
+    // Only react if streaming has started
+    if (!this.pc || !this.publishStream || !track) return;
+
+    (async () => {
+      const publishStream = this.publishStream;
+      const pc = this.pc;
+      if (!publishStream || !pc) return;
+
+      // Remove old audio tracks
+      publishStream.getAudioTracks().forEach((t) => publishStream.removeTrack(t));
+      // Add new audio track
+      publishStream.addTrack(track);
+
+      // Replace on RTCPeerConnection (keeping push-to-talk muting)
+      const sender = getAudioSender(pc);
+      if (sender) {
+        await sender.replaceTrack(
+          this.options.audioMuted ? (this.audioGraph?.bedTrack ?? null) : track
+        );
+      }
+
+      this.currentAudioTrack = track;
+    })().catch((e) => {
+      console.error('[DaydreamPublisher] Error replacing audio track:', e);
+      this.reportError(toError(e));
+    });
+  }
+
+  // Build the publishing MediaStream (canvas video + audio)
+  private async buildPublishStream(): Promise<MediaStream> {
+    const { enforceSquare, contentHint, audioSource } = this.options;
+    const { width: outputWidth, height: outputHeight } = this.outputDimensions;
+    // Ensure canvas dimensions
+    if (enforceSquare && this.renderMode !== 'worker') {
+      if (this.canvas.width !== outputWidth) this.canvas.width = outputWidth;
+      if (this.canvas.height !== outputHeight) this.canvas.height = outputHeight;
+    }
+    const canvasStream = this.canvas.captureStream(Math.max(1, this.fps));
+    if (contentHint !== undefined) {
+      canvasStream.getVideoTracks().forEach((t) => {
+        t.contentHint = contentHint;
+      });
+    }
+
+    // Processed audio graph
+    let audioTrack: MediaStreamTrack | null = this.audioGraph?.track ?? null;
+
+    // Check for external audio stream
+    const sourceAudioStream = audioSource.type === 'stream' ? audioSource.stream : null;
+    if (!audioTrack && sourceAudioStream) {
+      if (sourceAudioStream instanceof MediaStream) {
+        audioTrack = sourceAudioStream.getAudioTracks()[0] || null;
+      } else if ('kind' in sourceAudioStream) {
+        audioTrack = sourceAudioStream.kind === 'audio' ? sourceAudioStream : null;
+      }
+    }
+
+    // Fall back to built-in microphone
+    if (!audioTrack && this.builtInMicTrack) {
+      audioTrack = this.builtInMicTrack;
+    }
+
+    // Fall back to silent audio track
+    if (!audioTrack) {
+      const silent = this.createSilentAudioTrack();
+      if (silent) {
+        this.silentAudioTrack = silent;
+        audioTrack = silent;
+      }
+    }
+
+    // Combine into a single stream
+    const publishStream = new MediaStream();
+    canvasStream.getVideoTracks().forEach((t) => publishStream.addTrack(t));
+    if (audioTrack) publishStream.addTrack(audioTrack);
+
+    this.publishStream = publishStream;
+    this.currentAudioTrack = audioTrack;
+    return publishStream;
+  }
+
+  // Defaults and output size applied, then validated against the pipeline schema (throws ParamValidationError)
+  private prepareParams(next: P | undefined): P {
+    return validatePipelineParams(
+      this.pipelineDef,
+      applyOutputDimensions(this.pipelineDef.id, resolvePipelineParams(this.pipelineDef, next), this.outputDimensions)
+    );
+  }
+
+  private reportParamsUpdate(
+    update: { id: number; queuedAt: number },
+    state: ParamsUpdateState,
+    details?: Pick<ParamsUpdateEvent, 'changedFields' | 'partial' | 'error'>
+  ): void {
+    this.options.onParamsApplied?.({ id: update.id, state, latencyMs: Math.round(performance.now() - update.queuedAt), ...details });
+  }
+
+  // Serial params update queue
+  private async sendParamsUpdate(): Promise<void> {
+    if (this.paramsInFlight) return;
+    if (!this.readyForParamUpdates) return; // gate until the pipeline is ready
+    const streamId = this.streamId;
+    if (!streamId) return;
+
+    const update = this.pendingUpdate;
+    if (!update) return;
+
+    // Throttle: hold the update until intervalMs after the previous send
+    const updatePolicy = this.options.paramsUpdatePolicy;
+    if (updatePolicy.mode === 'throttle') {
+      const waitMs = this.lastParamsSentAt + (updatePolicy.intervalMs ?? 300) - performance.now();
+      if (waitMs > 0) {
+        if (!this.paramsTimer) {
+          this.paramsTimer = setTimeout(() => {
+            this.paramsTimer = null;
+            void this.sendParamsUpdate();
+          }, waitMs);
+        }
+        return;
+      }
+    }
+
+    // Clear pending immediately to detect new updates during send
+    this.pendingUpdate = null;
+    this.paramsInFlight = true;
+    this.lastParamsSentAt = performance.now();
+
+    const pipelineDef = this.pipelineDef;
+    let changedFields: string[] | undefined;
+    let partial: boolean | undefined;
+    try {
+      // Invalid params are reported and dropped without a request
+      const full = this.prepareParams(this.options.params);
+      const acked = this.ackedParams;
+      const body = buildPipelineParamsUpdate(pipelineDef, acked, full);
+      changedFields = body.changedFields;
+      partial = body.partial;
+      if (acked && changedFields.length === 0) {
+        this.reportParamsUpdate(update, 'acked', { changedFields, partial });
+        return;
+      }
+
+      const reloadFields = acked ? getReloadFields(pipelineDef, acked, full) : [];
+      if (reloadFields.length > 0) {
+        console.warn(`[DaydreamPublisher] Changing ${reloadFields.join(', ')} reloads the ${pipelineDef.id} pipeline`);
+      }
+
+      // Param updates with retry logic (retryPolicies.updateParams, default 3 retries from 1s).
+      // Params that change meanwhile are diffed against these once acked and sent next
+      this.reportParamsUpdate(update, 'sent', { changedFields, partial });
+      const policy = this.getRetryPolicy('updateParams');
+      const { client } = this.options;
+      await retryWithBackoff(
+        () => client.updatePrompts(streamId, body.params, pipelineDef.id),
+        {
+          ...policy,
+          onRetry: (attempt, error) => {
+            console.warn(`[DaydreamPublisher] Params update retry ${attempt}/${policy.maxRetries}:`, error);
+          },
+        }
+      );
+      // The stream may have been replaced while the request was in flight
+      if (this.streamId === streamId) this.ackedParams = full;
+      this.reportParamsUpdate(update, 'acked', { changedFields, partial });
+    } catch (e) {
+      console.error('[DaydreamPublisher] Params update failed:', e);
+      this.reportParamsUpdate(update, 'failed', { changedFields, partial, error: e });
+      this.reportError(toError(e));
+    } finally {
+      this.paramsInFlight = false;
+      // If new params arrived while in flight, send again (they already hold the latest snapshot)
+      if (this.pendingUpdate) {
+        // Schedule microtask to avoid deep recursion
+        queueMicrotask(() => {
+          void this.sendParamsUpdate();
+        });
+      }
+    }
+  }
+
+  private enqueueParamsUpdate(): void {
+    if (!this.options.params) return;
+    if (!this.pendingUpdate) {
+      const update = { id: this.nextUpdateId++, queuedAt: performance.now() };
+      this.pendingUpdate = update;
+      this.reportParamsUpdate(update, 'queued');
+    }
+
+    // Debounce: restart the quiet period on every change
+    const policy = this.options.paramsUpdatePolicy;
+    if (policy.mode === 'debounce') {
+      if (this.paramsTimer) clearTimeout(this.paramsTimer);
+      this.paramsTimer = setTimeout(() => {
+        this.paramsTimer = null;
+        void this.sendParamsUpdate();
+      }, policy.intervalMs ?? 300);
+      return;
+    }
+    // Try to send if conditions allow
+    queueMicrotask(() => {
+      void this.sendParamsUpdate();
+    });
+  }
+
+  // Base ICE servers plus short-lived ones from the client (TURN credentials expire, so fetch per publish)
+  private async resolveIceServers(): Promise<RTCIceServer[]> {
+    const { client, iceServers } = this.options;
+    const base = iceServers ?? DEFAULT_ICE_SERVERS;
+    if (!client.getIceServers) return base;
+    try {
+      return [...base, ...(await client.getIceServers())];
+    } catch (e) {
+      console.warn('[DaydreamPublisher] Failed to fetch ICE servers, using defaults:', e);
+      return base;
+    }
+  }
+
+  // Close the connection and release owned media, keeping the current status
+  private async teardown(): Promise<void> {
+    this.setStarted(false);
+    this.isStopping = true;
+    this.readyForParamUpdates = false;
+    this.readinessGeneration++;
+    if (this.paramsTimer) {
+      clearTimeout(this.paramsTimer);
+      this.paramsTimer = null;
+    }
+
+    // Clear stable timeout
+    if (this.connectionStableTimeout) {
+      clearTimeout(this.connectionStableTimeout);
+      this.connectionStableTimeout = null;
+    }
+
+    // Close RTCPeerConnection and tear down the WHIP resource server-side (not awaited)
+    if (this.whipSession) {
+      void this.whipSession.close();
+      this.whipSession = null;
+    }
+    this.pc = null;
+
+    // Stop publish stream tracks
+    if (this.publishStream) {
+      this.publishStream.getTracks().forEach((t) => {
+        // The audio graph outlives reconnects and stops its own tracks on dispose
+        if (t === this.audioGraph?.track) return;
+        try {
+          t.stop();
+        } catch (e) {
+          // Track already stopped or error
+        }
+      });
+      this.publishStream = null;
+    }
+
+    // Stop internal silent audio
+    if (this.silentAudioTrack) {
+      try {
+        this.silentAudioTrack.stop();
+      } catch (e) {
+        // Silent audio track already stopped or error
+      }
+      this.silentAudioTrack = null;
+    }
+    if (this.audioContext) {
+      try {
+        this.audioContext.close();
+      } catch (e) {
+        // Audio context already closed or error
+      }
+      this.audioContext = null;
+    }
+
+    // Do not stop external audio tracks; they are owned by the caller
+    this.currentAudioTrack = null;
+
+    // Clear stream identifiers
+    this.activeStream = null;
+    this.streamId = null;
+    this.playbackId = null;
+    this.playbackUrl = null;
+  }
+
+  // Latest stream data before resuming (the WHIP URL can change), null if the stream no longer exists
+  private async refreshStream(stream: DaydreamStream): Promise<DaydreamStream | null> {
+    const { client } = this.options;
+    if (!client.getStream) return stream;
+    try {
+      return await client.getStream(stream.id);
+    } catch (e) {
+      if (getErrorStatus(e) === 404) {
+        console.warn(`[DaydreamPublisher] Stream ${stream.id} no longer exists, creating a new one`);
+        return null;
+      }
+      // Unknown state, the WHIP publish decides (and falls back to a new stream)
+      console.warn(`[DaydreamPublisher] Failed to refresh stream ${stream.id}:`, e);
+      return stream;
+    }
+  }
+
+  // End a stream we no longer publish to, so it doesn't keep running on the account (best effort)
+  private releaseStream(streamId: string | null): void {
+    const { client, deleteStreamOnStop } = this.options;
+    if (!streamId || !deleteStreamOnStop || !client.deleteStream) return;
+    client.deleteStream(streamId).catch((e) => {
+      console.warn(`[DaydreamPublisher] Failed to delete stream ${streamId}:`, e);
+    });
+  }
+
+  // Remember the live stream so the next start() can re-publish to it. Returns false when resuming
+  // is disabled (resumeWindowMs 0), in which case the caller releases the stream
+  private keepStreamForResume(): boolean {
+    if (this.options.resumeWindowMs > 0 && this.activeStream) {
+      this.resumableStream = { stream: this.activeStream, suspendedAt: Date.now() };
+      return true;
+    }
+    return false;
+  }
+
+  // A stream runs the pipeline it was created with: after a pipeline change, replace the live (or
+  // starting) stream with a new one and drop a suspended one, instead of updating it with the new params
+  private recreateStreamForPipeline(): void {
+    if (this.isStarted || this.startPromise) {
+      this.restart().catch(() => {
+        // Already reported via onError
+      });
+    } else if (this.resumableStream) {
+      this.releaseStream(this.resumableStream.stream.id);
+      this.resumableStream = null;
+    }
+  }
+
+  // Reconnect after a lost connection, keeping the 'reconnecting' status and the stream
+  private async reconnect(): Promise<void> {
+    if (!this.keepStreamForResume()) this.releaseStream(this.streamId);
+    await this.teardown();
+    await this.start();
+  }
+}
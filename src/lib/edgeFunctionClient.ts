@@ -0,0 +1,103 @@
+import type { DaydreamStream, DaydreamClient, ListStreamsOptions } from '@/lib/daydreamPublisher';
+import { DaydreamApiError } from '@/lib/errors';
+import { parseStreamList } from '@/lib/daydreamClient';
+import { parseStreamStatus, type DaydreamStreamStatus } from '@/lib/streamStatus';
+
+// Bearer token for the functions gateway: the project's publishable (anon) key or a user access token.
+// Pass a function to fetch a fresh one per request (e.g. from your auth session)
+export type EdgeFunctionToken = string | (() => string | Promise<string>);
+
+/**
+ * Token-based client for our Supabase edge functions (daydream-stream, daydream-prompt,
+ * daydream-stream-status, daydream-stream-get/-delete/-list, turn-credentials), for embeds that don't ship the Supabase SDK.
+ * The Daydream API key stays in the functions
+ */
+export class EdgeFunctionDaydreamClient implements DaydreamClient<object> {
+  private functionsUrl: string;
+  private token: EdgeFunctionToken;
+
+  // functionsUrl: e.g. https://<project>.supabase.co/functions/v1
+  constructor(functionsUrl: string, token: EdgeFunctionToken) {
+    this.functionsUrl = functionsUrl.replace(/\/+$/, '');
+    this.token = token;
+  }
+
+  /**
+   * Create a new Daydream stream with the specified pipeline
+   * If initialParams provided, the edge function handles parameter initialization with retry logic
+   */
+  async createStream(pipeline: string, initialParams?: object): Promise<DaydreamStream> {
+    const data = await this.invoke('createStream', 'daydream-stream', { pipeline, initialParams });
+    if (!data) throw new Error('No stream data returned');
+    const { id, output_playback_id, whip_url } = data as DaydreamStream;
+    return { id, output_playback_id, whip_url };
+  }
+
+  /**
+   * Update the params of a running stream
+   * Sends the full params, or only the changed fields for pipelines with partial updates
+   */
+  async updatePrompts(streamId: string, params: object, pipeline: string = 'streamdiffusion'): Promise<void> {
+    await this.invoke('updatePrompts', 'daydream-prompt', { streamId, pipeline, params });
+  }
+
+  /**
+   * Get the stream status, polled after publishing until the pipeline produces output
+   */
+  async getStreamStatus(streamId: string): Promise<DaydreamStreamStatus> {
+    return parseStreamStatus(await this.invoke('getStreamStatus', 'daydream-stream-status', { streamId }));
+  }
+
+  /**
+   * Get a stream (current WHIP URL, playback ID and pipeline)
+   */
+  async getStream(streamId: string): Promise<DaydreamStream> {
+    return await this.invoke('getStream', 'daydream-stream-get', { streamId }) as DaydreamStream;
+  }
+
+  /**
+   * End a stream so it stops running on the account
+   */
+  async deleteStream(streamId: string): Promise<void> {
+    await this.invoke('deleteStream', 'daydream-stream-delete', { streamId });
+  }
+
+  /**
+   * List the token's user's streams that still exist (empty with the publishable key, which has no user)
+   */
+  async listStreams({ limit = 20, offset = 0 }: ListStreamsOptions = {}): Promise<DaydreamStream[]> {
+    return parseStreamList(await this.invoke('listStreams', 'daydream-stream-list', { limit, offset }));
+  }
+
+  /**
+   * Fetch short-lived TURN credentials for the WHIP peer connection
+   */
+  async getIceServers(): Promise<RTCIceServer[]> {
+    const data = await this.invoke('getIceServers', 'turn-credentials', {}) as { iceServers?: RTCIceServer[] } | null;
+    return data?.iceServers ?? [];
+  }
+
+  // Edge functions report Daydream API failures as { error, daydreamError, status }, with status
+  // being the Daydream API's own (the function may answer 400 for an upstream 404)
+  private async invoke(operation: string, functionName: string, body: object): Promise<unknown> {
+    const token = typeof this.token === 'function' ? await this.token() : this.token;
+    const response = await fetch(`${this.functionsUrl}/${functionName}`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+    });
+
+    const data = await response.json().catch(() => null);
+
+    if (!response.ok) {
+      console.error(`[DAYDREAM] ${functionName} error:`, JSON.stringify(data, null, 2));
+      const status = typeof data?.status === 'number' ? data.status : response.status;
+      throw new DaydreamApiError(operation, status, data);
+    }
+
+    return data;
+  }
+}
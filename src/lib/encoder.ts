@@ -0,0 +1,154 @@
+/**
+ * Encoder controls for the published WebRTC video: codec preference, bitrate/framerate caps,
+ * and a loss-driven adaptive bitrate controller (with a resolution ladder) built on
+ * RTCRtpSender.setParameters.
+ */
+
+import { collectPublishStats, type PublishStats } from '@/lib/publishStats';
+
+export type VideoCodec = 'H264' | 'VP8' | 'VP9' | 'AV1';
+
+export interface SenderEncodingLimits {
+  maxBitrate?: number; // bps
+  maxFramerate?: number;
+}
+
+export interface AdaptiveBitrateOptions {
+  maxBitrate: number; // bps, ceiling and starting point
+  minBitrate?: number; // bps, default 150 kbps
+  intervalMs?: number; // stats sampling interval, default 2000
+  onBitrateChange?: (bitrate: number, packetLoss: number, scaleResolutionDownBy: number) => void;
+}
+
+export const DEFAULT_MAX_BITRATE = 2_000_000;
+const DEFAULT_MIN_BITRATE = 150_000;
+
+// Packet loss thresholds (fraction of sent packets) for stepping the bitrate down or up
+const HIGH_LOSS = 0.1;
+const MODERATE_LOSS = 0.03;
+const LOW_LOSS = 0.01;
+
+// Resolution ladder: downscale factor by share of the max bitrate, so low bitrates get fewer,
+// sharper pixels instead of a blocky full-size frame
+const RESOLUTION_LADDER = [
+  { minBitrateShare: 0.5, scaleResolutionDownBy: 1 },
+  { minBitrateShare: 0.25, scaleResolutionDownBy: 1.5 },
+  { minBitrateShare: 0, scaleResolutionDownBy: 2 },
+];
+
+function getResolutionScale(bitrate: number, maxBitrate: number): number {
+  const share = bitrate / maxBitrate;
+  return RESOLUTION_LADDER.find(rung => share >= rung.minBitrateShare)!.scaleResolutionDownBy;
+}
+
+function getVideoSender(pc: RTCPeerConnection): RTCRtpSender | null {
+  return pc.getSenders().find(s => s.track?.kind === 'video') ?? null;
+}
+
+// Move the preferred codec to the front of the video transceivers' codec list (call before createOffer)
+export function applyCodecPreference(pc: RTCPeerConnection, codec: VideoCodec): void {
+  const capabilities = typeof RTCRtpSender.getCapabilities === 'function'
+    ? RTCRtpSender.getCapabilities('video')
+    : null;
+  if (!capabilities) return;
+
+  const mimeType = `video/${codec}`.toLowerCase();
+  const preferred = capabilities.codecs.filter(c => c.mimeType.toLowerCase() === mimeType);
+  if (preferred.length === 0) {
+    console.warn(`[Encoder] Codec ${codec} not supported by this browser, using default`);
+    return;
+  }
+  const others = capabilities.codecs.filter(c => c.mimeType.toLowerCase() !== mimeType);
+
+  pc.getTransceivers()
+    .filter(t => t.sender.track?.kind === 'video' && typeof t.setCodecPreferences === 'function')
+    .forEach(t => {
+      try {
+        t.setCodecPreferences([...preferred, ...others]);
+      } catch (e) {
+        console.warn('[Encoder] setCodecPreferences failed:', e);
+      }
+    });
+}
+
+// Cap bitrate/framerate on the video sender's encodings, at full resolution
+export async function applySenderEncodingLimits(
+  pc: RTCPeerConnection,
+  limits: SenderEncodingLimits
+): Promise<void> {
+  const sender = getVideoSender(pc);
+  if (!sender) return;
+
+  const parameters = sender.getParameters();
+  if (!parameters.encodings || parameters.encodings.length === 0) {
+    parameters.encodings = [{}];
+  }
+  parameters.encodings.forEach(encoding => {
+    if (limits.maxBitrate !== undefined) encoding.maxBitrate = limits.maxBitrate;
+    else delete encoding.maxBitrate;
+    if (limits.maxFramerate !== undefined) encoding.maxFramerate = limits.maxFramerate;
+    else delete encoding.maxFramerate;
+    encoding.scaleResolutionDownBy = 1;
+  });
+  await sender.setParameters(parameters);
+}
+
+/**
+ * Periodically sample packet loss and step the video sender's maxBitrate down on loss
+ * and slowly back up when the path is clean, scaling the resolution down along the ladder
+ * as the bitrate drops. Returns a function that stops the controller.
+ */
+export function startAdaptiveBitrate(
+  pc: RTCPeerConnection,
+  options: AdaptiveBitrateOptions
+): () => void {
+  const minBitrate = options.minBitrate ?? DEFAULT_MIN_BITRATE;
+  const intervalMs = options.intervalMs ?? 2000;
+  let bitrate = options.maxBitrate;
+  let previous: PublishStats | null = null;
+  let stopped = false;
+
+  const tick = async () => {
+    if (stopped || pc.connectionState !== 'connected') return;
+    try {
+      const stats = await collectPublishStats(pc, previous);
+      const firstSample = previous === null;
+      previous = stats;
+      if (firstSample) return;
+      const loss = stats.video.packetLoss ?? 0;
+
+      let next = bitrate;
+      if (loss > HIGH_LOSS) next = bitrate * 0.7;
+      else if (loss > MODERATE_LOSS) next = bitrate * 0.85;
+      else if (loss < LOW_LOSS) next = bitrate * 1.05;
+      next = Math.round(Math.min(options.maxBitrate, Math.max(minBitrate, next)));
+
+      // Skip tiny adjustments to avoid churning the encoder
+      if (Math.abs(next - bitrate) / bitrate < 0.02 || stopped) return;
+
+      const sender = getVideoSender(pc);
+      if (!sender) return;
+      const parameters = sender.getParameters();
+      if (!parameters.encodings || parameters.encodings.length === 0) {
+        parameters.encodings = [{}];
+      }
+      const scale = getResolutionScale(next, options.maxBitrate);
+      parameters.encodings.forEach(encoding => {
+        encoding.maxBitrate = next;
+        encoding.scaleResolutionDownBy = scale;
+      });
+      await sender.setParameters(parameters);
+
+      bitrate = next;
+      options.onBitrateChange?.(bitrate, loss, scale);
+    } catch (e) {
+      console.warn('[Encoder] Adaptive bitrate sample failed:', e);
+    }
+  };
+
+  const intervalId = setInterval(() => void tick(), intervalMs);
+  return () => {
+    stopped = true;
+    clearInterval(intervalId);
+  };
+}
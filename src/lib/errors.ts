@@ -0,0 +1,127 @@
+/**
+ * Typed errors surfaced by DaydreamCanvas (via onError) and the Daydream clients.
+ *
+ * Retry decisions and UI recovery actions switch on the class instead of parsing messages:
+ * - DaydreamApiError: the Daydream API (directly or through an edge function) returned an error
+ * - WhipNegotiationError: the WHIP endpoint rejected the offer or the connection was lost
+ * - MediaPermissionError: camera/microphone/screen capture was denied or unavailable
+ * - ParamValidationError: params failed the pipeline schema before any request was made
+ */
+
+export class DaydreamApiError extends Error {
+  readonly operation: string; // client method, e.g. 'createStream'
+  readonly status: number; // Daydream API status (edge functions report it in the body)
+  readonly body: unknown; // error response body
+
+  constructor(operation: string, status: number, body: unknown) {
+    super(`Daydream API error in ${operation}: ${status}${describeBody(body)}`);
+    this.name = 'DaydreamApiError';
+    this.operation = operation;
+    this.status = status;
+    this.body = body;
+  }
+}
+
+export type WhipNegotiationPhase = 'offer' | 'ice-restart' | 'connection';
+
+export class WhipNegotiationError extends Error {
+  readonly phase: WhipNegotiationPhase;
+  readonly status: number | null; // WHIP endpoint HTTP status, null for network and ICE failures
+
+  constructor(message: string, phase: WhipNegotiationPhase, status: number | null = null) {
+    super(message);
+    this.name = 'WhipNegotiationError';
+    this.phase = phase;
+    this.status = status;
+  }
+}
+
+export type MediaKind = 'camera' | 'microphone' | 'screen';
+export type MediaPermissionReason = 'denied' | 'not-found' | 'in-use' | 'unsupported';
+
+export class MediaPermissionError extends Error {
+  readonly kind: MediaKind;
+  readonly reason: MediaPermissionReason;
+  readonly cause: unknown; // original DOMException
+
+  constructor(kind: MediaKind, reason: MediaPermissionReason, cause: unknown) {
+    super(`${kind} ${reason === 'denied' ? 'permission denied' : reason.replace('-', ' ')}`);
+    this.name = 'MediaPermissionError';
+    this.kind = kind;
+    this.reason = reason;
+    this.cause = cause;
+  }
+}
+
+export class ParamValidationError extends Error {
+  readonly pipeline: string;
+  readonly issues: string[]; // "path: message" per failed field
+
+  constructor(pipeline: string, issues: string[]) {
+    super(`Invalid ${pipeline} params: ${issues.join('; ')}`);
+    this.name = 'ParamValidationError';
+    this.pipeline = pipeline;
+    this.issues = issues;
+  }
+}
+
+// What DaydreamCanvas reports via onError: one of the classes above, or a plain Error
+export type DaydreamCanvasError =
+  | DaydreamApiError
+  | WhipNegotiationError
+  | MediaPermissionError
+  | ParamValidationError
+  | Error;
+
+export function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error));
+}
+
+function describeBody(body: unknown): string {
+  if (!body || typeof body !== 'object') return '';
+  const { error, message, daydreamError } = body as Record<string, unknown>;
+  const detail = daydreamError ?? message ?? error;
+  if (typeof detail === 'string') return ` ${detail}`;
+  return detail ? ` ${JSON.stringify(detail)}` : '';
+}
+
+// Map a getUserMedia/getDisplayMedia rejection to a MediaPermissionError (other errors pass through)
+export function toMediaError(error: unknown, kind: MediaKind): Error {
+  if (!(error instanceof DOMException)) return toError(error);
+  switch (error.name) {
+    case 'NotAllowedError':
+    case 'SecurityError':
+      return new MediaPermissionError(kind, 'denied', error);
+    case 'NotFoundError':
+    case 'OverconstrainedError':
+      return new MediaPermissionError(kind, 'not-found', error);
+    case 'NotReadableError':
+    case 'AbortError':
+      return new MediaPermissionError(kind, 'in-use', error);
+    case 'NotSupportedError':
+      return new MediaPermissionError(kind, 'unsupported', error);
+    default:
+      return error;
+  }
+}
+
+// HTTP status carried by an error, if any
+export function getErrorStatus(error: unknown): number | null {
+  if (error instanceof DaydreamApiError || error instanceof WhipNegotiationError) return error.status;
+  if (error && typeof error === 'object' && 'status' in error) {
+    const status = Number((error as { status: unknown }).status);
+    return Number.isFinite(status) ? status : null;
+  }
+  return null;
+}
+
+// Default retry predicate: client errors (4xx other than timeouts/rate limits), invalid params and
+// media permission failures won't succeed on retry; network, 5xx and unknown errors might
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof ParamValidationError || error instanceof MediaPermissionError) return false;
+  const status = getErrorStatus(error);
+  if (status !== null && status >= 400 && status < 500) {
+    return status === 408 || status === 429;
+  }
+  return true;
+}
@@ -0,0 +1,364 @@
+/**
+ * Frame processors run in order on every frame DaydreamCanvas draws, after the source has been
+ * copied (cropped/mirrored) and before the canvas is captured for WHIP publishing.
+ *
+ * Each processor edits the frame in place through the output canvas' 2D context. GPU processors
+ * render `ctx.canvas` through their own WebGL (Offscreen)canvas and draw the result back.
+ */
+
+export interface FrameInfo {
+  width: number;
+  height: number;
+  timestamp: number; // ms, performance.now()
+}
+
+export interface FrameProcessor {
+  name: string;
+  process: (ctx: CanvasRenderingContext2D, frame: FrameInfo) => void;
+  // Release GPU/image resources. Processors are owned by the caller, who should dispose them.
+  dispose?: () => void;
+}
+
+// Run the chain, isolating failures so one broken processor doesn't stop publishing
+export function runFrameProcessors(
+  processors: FrameProcessor[] | undefined,
+  ctx: CanvasRenderingContext2D,
+  frame: FrameInfo
+): void {
+  if (!processors || processors.length === 0) return;
+  for (const processor of processors) {
+    ctx.save();
+    try {
+      processor.process(ctx, frame);
+    } catch (e) {
+      console.error(`[FrameProcessor] ${processor.name} failed:`, e);
+    } finally {
+      ctx.restore();
+    }
+  }
+}
+
+type ScratchCanvas = OffscreenCanvas | HTMLCanvasElement;
+
+function createScratchCanvas(width: number, height: number): ScratchCanvas {
+  if (typeof OffscreenCanvas !== 'undefined') {
+    return new OffscreenCanvas(width, height);
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+}
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous'; // keep the published canvas origin-clean
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error(`Failed to load image: ${src}`));
+    img.src = src;
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Brightness / contrast / saturation
+// ---------------------------------------------------------------------------
+
+export interface BrightnessContrastOptions {
+  brightness?: number; // 1 = unchanged
+  contrast?: number; // 1 = unchanged
+  saturation?: number; // 1 = unchanged
+}
+
+/**
+ * Tune dim or washed-out input. Uses the 2D context `filter` where supported
+ * and falls back to per-pixel math (e.g. Safari).
+ */
+export function createBrightnessContrastProcessor(
+  options: BrightnessContrastOptions
+): FrameProcessor {
+  const brightness = options.brightness ?? 1;
+  const contrast = options.contrast ?? 1;
+  const saturation = options.saturation ?? 1;
+  let scratch: ScratchCanvas | null = null;
+
+  return {
+    name: 'brightness-contrast',
+    process: (ctx, { width, height }) => {
+      if (brightness === 1 && contrast === 1 && saturation === 1) return;
+
+      if (typeof ctx.filter === 'string') {
+        if (!scratch || scratch.width !== width || scratch.height !== height) {
+          scratch = createScratchCanvas(width, height);
+        }
+        const scratchCtx = scratch.getContext('2d') as CanvasRenderingContext2D | null;
+        if (!scratchCtx) return;
+        scratchCtx.drawImage(ctx.canvas, 0, 0);
+        ctx.filter = `brightness(${brightness}) contrast(${contrast}) saturate(${saturation})`;
+        ctx.drawImage(scratch, 0, 0);
+        return;
+      }
+
+      const image = ctx.getImageData(0, 0, width, height);
+      const data = image.data;
+      for (let i = 0; i < data.length; i += 4) {
+        let r = data[i] * brightness;
+        let g = data[i + 1] * brightness;
+        let b = data[i + 2] * brightness;
+        r = (r - 128) * contrast + 128;
+        g = (g - 128) * contrast + 128;
+        b = (b - 128) * contrast + 128;
+        const luma = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+        data[i] = luma + (r - luma) * saturation;
+        data[i + 1] = luma + (g - luma) * saturation;
+        data[i + 2] = luma + (b - luma) * saturation;
+      }
+      ctx.putImageData(image, 0, 0);
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Color grading LUT (WebGL)
+// ---------------------------------------------------------------------------
+
+export interface LutOptions {
+  // 512x512 LUT image laid out as an 8x8 grid of 64x64 tiles (64^3 colors, blue selects the tile)
+  lut: string | HTMLImageElement | ImageBitmap;
+  intensity?: number; // 0-1 blend with the original, default 1
+}
+
+const LUT_VERTEX_SHADER = `
+attribute vec2 a_position;
+varying vec2 v_uv;
+void main() {
+  v_uv = vec2((a_position.x + 1.0) / 2.0, (1.0 - a_position.y) / 2.0);
+  gl_Position = vec4(a_position, 0.0, 1.0);
+}`;
+
+const LUT_FRAGMENT_SHADER = `
+precision mediump float;
+uniform sampler2D u_image;
+uniform sampler2D u_lut;
+uniform float u_intensity;
+varying vec2 v_uv;
+void main() {
+  vec4 color = texture2D(u_image, v_uv);
+  float blue = color.b * 63.0;
+  vec2 tile1 = vec2(mod(floor(blue), 8.0), floor(floor(blue) / 8.0));
+  vec2 tile2 = vec2(mod(ceil(blue), 8.0), floor(ceil(blue) / 8.0));
+  vec2 inner = 0.5 / 512.0 + (0.125 - 1.0 / 512.0) * color.rg;
+  vec4 graded1 = texture2D(u_lut, tile1 * 0.125 + inner);
+  vec4 graded2 = texture2D(u_lut, tile2 * 0.125 + inner);
+  vec3 graded = mix(graded1.rgb, graded2.rgb, fract(blue));
+  gl_FragColor = vec4(mix(color.rgb, graded, u_intensity), 1.0);
+}`;
+
+function compileShader(gl: WebGLRenderingContext, type: number, source: string): WebGLShader {
+  const shader = gl.createShader(type)!;
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    throw new Error(`Shader compile failed: ${gl.getShaderInfoLog(shader)}`);
+  }
+  return shader;
+}
+
+function createTexture(gl: WebGLRenderingContext): WebGLTexture {
+  const texture = gl.createTexture()!;
+  gl.bindTexture(gl.TEXTURE_2D, texture);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+  return texture;
+}
+
+/**
+ * Color grade frames with a 3D LUT on the GPU. Frames pass through untouched
+ * until the LUT image has loaded, or if WebGL is unavailable.
+ */
+export function createLutProcessor(options: LutOptions): FrameProcessor {
+  const intensity = options.intensity ?? 1;
+  let lutImage: HTMLImageElement | ImageBitmap | null = typeof options.lut === 'string' ? null : options.lut;
+  let disposed = false;
+  let unavailable = false;
+
+  let glCanvas: ScratchCanvas | null = null;
+  let gl: WebGLRenderingContext | null = null;
+  let imageTexture: WebGLTexture | null = null;
+  let lutTexture: WebGLTexture | null = null;
+  let lutUploaded = false;
+
+  if (typeof options.lut === 'string') {
+    loadImage(options.lut)
+      .then((img) => {
+        if (!disposed) lutImage = img;
+      })
+      .catch((e) => {
+        console.error('[FrameProcessor] LUT load failed:', e);
+      });
+  }
+
+  const init = (width: number, height: number): boolean => {
+    glCanvas = createScratchCanvas(width, height);
+    gl = glCanvas.getContext('webgl', { premultipliedAlpha: false }) as WebGLRenderingContext | null;
+    if (!gl) {
+      console.warn('[FrameProcessor] WebGL unavailable, LUT disabled');
+      unavailable = true;
+      return false;
+    }
+
+    const program = gl.createProgram()!;
+    gl.attachShader(program, compileShader(gl, gl.VERTEX_SHADER, LUT_VERTEX_SHADER));
+    gl.attachShader(program, compileShader(gl, gl.FRAGMENT_SHADER, LUT_FRAGMENT_SHADER));
+    gl.linkProgram(program);
+    gl.useProgram(program);
+
+    // Full-screen quad
+    const buffer = gl.createBuffer();
+    gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+    gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]), gl.STATIC_DRAW);
+    const position = gl.getAttribLocation(program, 'a_position');
+    gl.enableVertexAttribArray(position);
+    gl.vertexAttribPointer(position, 2, gl.FLOAT, false, 0, 0);
+
+    gl.activeTexture(gl.TEXTURE0);
+    imageTexture = createTexture(gl);
+    gl.activeTexture(gl.TEXTURE1);
+    lutTexture = createTexture(gl);
+    gl.uniform1i(gl.getUniformLocation(program, 'u_image'), 0);
+    gl.uniform1i(gl.getUniformLocation(program, 'u_lut'), 1);
+    gl.uniform1f(gl.getUniformLocation(program, 'u_intensity'), intensity);
+    lutUploaded = false;
+    return true;
+  };
+
+  return {
+    name: 'lut',
+    process: (ctx, { width, height }) => {
+      if (disposed || unavailable || !lutImage || intensity <= 0) return;
+      if (!gl || glCanvas!.width !== width || glCanvas!.height !== height) {
+        if (!init(width, height)) return;
+      }
+
+      if (!lutUploaded) {
+        gl.activeTexture(gl.TEXTURE1);
+        gl.bindTexture(gl.TEXTURE_2D, lutTexture);
+        gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, lutImage);
+        lutUploaded = true;
+      }
+
+      gl.activeTexture(gl.TEXTURE0);
+      gl.bindTexture(gl.TEXTURE_2D, imageTexture);
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, ctx.canvas);
+      gl.viewport(0, 0, width, height);
+      gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+
+      ctx.drawImage(glCanvas!, 0, 0, width, height);
+    },
+    dispose: () => {
+      disposed = true;
+      gl?.getExtension('WEBGL_lose_context')?.loseContext();
+      gl = null;
+      glCanvas = null;
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Text / logo overlay
+// ---------------------------------------------------------------------------
+
+export type OverlayPosition = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right' | 'center';
+
+export interface OverlayOptions {
+  text?: string;
+  font?: string; // CSS font, default "bold 28px sans-serif"
+  color?: string; // default white
+  image?: string | CanvasImageSource; // logo, drawn before the text
+  imageWidth?: number; // px in output space, default 20% of frame width (height keeps aspect)
+  position?: OverlayPosition; // default 'bottom-right'
+  margin?: number; // px, default 16
+  opacity?: number; // 0-1, default 1
+}
+
+function imageSize(image: CanvasImageSource): { width: number; height: number } {
+  if (image instanceof HTMLImageElement) return { width: image.naturalWidth, height: image.naturalHeight };
+  if (image instanceof HTMLVideoElement) return { width: image.videoWidth, height: image.videoHeight };
+  const sized = image as { width: number | SVGAnimatedLength; height: number | SVGAnimatedLength };
+  const width = typeof sized.width === 'number' ? sized.width : sized.width.baseVal.value;
+  const height = typeof sized.height === 'number' ? sized.height : sized.height.baseVal.value;
+  return { width, height };
+}
+
+/**
+ * Brand the input before diffusion with a logo and/or text anchored to a corner
+ */
+export function createOverlayProcessor(options: OverlayOptions): FrameProcessor {
+  const position = options.position ?? 'bottom-right';
+  const margin = options.margin ?? 16;
+  const opacity = options.opacity ?? 1;
+  let logo: CanvasImageSource | null = typeof options.image === 'string' ? null : options.image ?? null;
+
+  if (typeof options.image === 'string') {
+    loadImage(options.image)
+      .then((img) => {
+        logo = img;
+      })
+      .catch((e) => {
+        console.error('[FrameProcessor] Overlay image load failed:', e);
+      });
+  }
+
+  return {
+    name: 'overlay',
+    process: (ctx, { width, height }) => {
+      ctx.globalAlpha = opacity;
+
+      let logoWidth = 0;
+      let logoHeight = 0;
+      if (logo) {
+        const natural = imageSize(logo);
+        if (natural.width > 0 && natural.height > 0) {
+          logoWidth = options.imageWidth ?? width * 0.2;
+          logoHeight = (natural.height / natural.width) * logoWidth;
+        }
+      }
+
+      let textWidth = 0;
+      let textHeight = 0;
+      if (options.text) {
+        ctx.font = options.font ?? 'bold 28px sans-serif';
+        const metrics = ctx.measureText(options.text);
+        textWidth = metrics.width;
+        textHeight = metrics.actualBoundingBoxAscent + metrics.actualBoundingBoxDescent;
+      }
+
+      // Logo stacked above text, both aligned to the anchored edge
+      const gap = logoHeight && textHeight ? 8 : 0;
+      const blockWidth = Math.max(logoWidth, textWidth);
+      const blockHeight = logoHeight + gap + textHeight;
+      const alignRight = position.endsWith('right');
+      const x = position === 'center'
+        ? (width - blockWidth) / 2
+        : alignRight ? width - margin - blockWidth : margin;
+      const y = position === 'center'
+        ? (height - blockHeight) / 2
+        : position.startsWith('bottom') ? height - margin - blockHeight : margin;
+      const itemX = (itemWidth: number) =>
+        position === 'center' ? x + (blockWidth - itemWidth) / 2 : alignRight ? x + blockWidth - itemWidth : x;
+
+      if (logo && logoWidth > 0) {
+        ctx.drawImage(logo, itemX(logoWidth), y, logoWidth, logoHeight);
+      }
+      if (options.text) {
+        ctx.fillStyle = options.color ?? '#ffffff';
+        ctx.textBaseline = 'top';
+        ctx.shadowColor = 'rgba(0, 0, 0, 0.6)';
+        ctx.shadowBlur = 4;
+        ctx.fillText(options.text, itemX(textWidth), y + logoHeight + gap);
+      }
+    },
+  };
+}
@@ -0,0 +1,265 @@
+import type { DaydreamStream, DaydreamClient, ListStreamsOptions } from '@/lib/daydreamPublisher';
+import { DaydreamApiClient } from '@/lib/daydreamClient';
+import type { DaydreamStreamStatus } from '@/lib/streamStatus';
+
+interface LoopbackOffer {
+  sessionId: string;
+  streamId: string;
+  playbackId: string | null;
+  params: Record<string, unknown>;
+  sdp: string;
+}
+
+interface LoopbackOutput {
+  streamId: string;
+  playbackId: string | null;
+  stream: MediaStream;
+}
+
+// Cheap stand-in for the diffusion model: a CSS filter derived from the prompt, so each prompt
+// looks different and the same prompt always looks the same
+export function mockFilterForPrompt(prompt: string): string {
+  // FNV-1a
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < prompt.length; i++) {
+    hash ^= prompt.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  const hue = hash % 360;
+  const saturate = 1 + ((hash >>> 9) % 150) / 100;
+  const contrast = 1 + ((hash >>> 17) % 50) / 100;
+  const invert = (hash >>> 25) % 4 === 0 ? ' invert(1)' : '';
+  return `hue-rotate(${hue}deg) saturate(${saturate}) contrast(${contrast})${invert}`;
+}
+
+function promptOf(params: Record<string, unknown> | undefined): string {
+  const prompt = params?.prompt;
+  if (prompt === undefined) return '';
+  return typeof prompt === 'string' ? prompt : JSON.stringify(prompt);
+}
+
+function waitForIceGatheringComplete(pc: RTCPeerConnection, timeoutMs: number): Promise<void> {
+  return new Promise((resolve) => {
+    if (pc.iceGatheringState === 'complete') return resolve();
+    const timer = setTimeout(resolve, timeoutMs);
+    pc.addEventListener('icegatheringstatechange', () => {
+      if (pc.iceGatheringState !== 'complete') return;
+      clearTimeout(timer);
+      resolve();
+    });
+  });
+}
+
+/**
+ * Client for the local mock Daydream server (scripts/mock-daydream-server.mjs), for offline dev and CI.
+ * Stream REST calls go to the mock; WHIP offers sent to it are answered by a loopback peer in this page,
+ * whose output (the published video with a filter keyed off the prompt) is exposed via getOutputStream
+ * in place of the Livepeer playback
+ */
+export class MockDaydreamClient implements DaydreamClient<object> {
+  private api: DaydreamApiClient;
+  private baseUrl: string;
+  private params = new Map<string, Record<string, unknown>>();
+  private outputs = new Map<string, LoopbackOutput>(); // by WHIP session id
+  private listeners = new Set<() => void>();
+  private loopback: AbortController | null = null;
+
+  constructor(baseUrl: string = 'http://localhost:8787') {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    // The mock accepts any bearer token
+    this.api = new DaydreamApiClient('mock', this.baseUrl);
+  }
+
+  /**
+   * Create a new stream on the mock and make sure the loopback peer is waiting for its WHIP offer
+   */
+  async createStream(pipeline: string, initialParams?: object): Promise<DaydreamStream> {
+    this.startLoopback();
+    const stream = await this.api.createStream(pipeline, initialParams);
+    this.params.set(stream.id, { ...(initialParams as Record<string, unknown>) });
+    return stream;
+  }
+
+  /**
+   * Update the params of a running stream; a new prompt changes the output filter right away
+   */
+  async updatePrompts(streamId: string, params: object, pipeline: string = 'streamdiffusion'): Promise<void> {
+    await this.api.updatePrompts(streamId, params, pipeline);
+    this.params.set(streamId, { ...this.params.get(streamId), ...(params as Record<string, unknown>) });
+  }
+
+  /**
+   * Get the stream status; the mock goes ONLINE a couple of seconds after publishing
+   */
+  async getStreamStatus(streamId: string): Promise<DaydreamStreamStatus> {
+    return this.api.getStreamStatus(streamId);
+  }
+
+  /**
+   * Get a stream from the mock
+   */
+  async getStream(streamId: string): Promise<DaydreamStream> {
+    return this.api.getStream(streamId);
+  }
+
+  /**
+   * End a stream on the mock; its loopback output ends with the publisher's WHIP session
+   */
+  async deleteStream(streamId: string): Promise<void> {
+    await this.api.deleteStream(streamId);
+    this.params.delete(streamId);
+  }
+
+  /**
+   * List the streams on the mock, newest first
+   */
+  async listStreams(options?: ListStreamsOptions): Promise<DaydreamStream[]> {
+    return this.api.listStreams(options);
+  }
+
+  /**
+   * No TURN on the mock, publisher and loopback peer connect over host candidates
+   */
+  async getIceServers(): Promise<RTCIceServer[]> {
+    return [];
+  }
+
+  /**
+   * Loopback output of a stream, by stream id or playback id (null until it is being published)
+   */
+  getOutputStream(id: string): MediaStream | null {
+    for (const output of this.outputs.values()) {
+      if (output.streamId === id || output.playbackId === id) return output.stream;
+    }
+    return null;
+  }
+
+  /**
+   * Called when an output stream appears or goes away. Returns an unsubscribe function
+   */
+  onOutputChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Stop answering WHIP offers (running loopback sessions end when their publisher does)
+   */
+  close(): void {
+    this.loopback?.abort();
+    this.loopback = null;
+  }
+
+  // Long-poll the mock for WHIP offers until closed
+  private startLoopback(): void {
+    if (this.loopback) return;
+    const controller = new AbortController();
+    this.loopback = controller;
+
+    void (async () => {
+      while (!controller.signal.aborted) {
+        try {
+          const response = await fetch(`${this.baseUrl}/loopback/next`, { signal: controller.signal });
+          if (response.status === 200) {
+            const offer = await response.json() as LoopbackOffer;
+            this.answer(offer).catch(e => console.error('[DAYDREAM] Mock loopback failed:', e));
+          } else if (response.status !== 204) {
+            throw new Error(`Loopback poll failed: ${response.status}`);
+          }
+        } catch (e) {
+          if (controller.signal.aborted) return;
+          console.warn('[DAYDREAM] Mock server unreachable, retrying:', e);
+          await new Promise(resolve => setTimeout(resolve, 1000));
+        }
+      }
+    })();
+  }
+
+  private async answer(offer: LoopbackOffer): Promise<void> {
+    const { sessionId, streamId, playbackId } = offer;
+    if (!this.params.has(streamId)) this.params.set(streamId, offer.params);
+
+    const pc = new RTCPeerConnection();
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    const canvas = document.createElement('canvas');
+    const ctx = canvas.getContext('2d')!;
+    const stream = canvas.captureStream(30);
+
+    pc.ontrack = (event) => {
+      if (event.track.kind === 'video') {
+        video.srcObject = new MediaStream([event.track]);
+        void video.play().catch(() => {});
+      } else {
+        stream.addTrack(event.track);
+      }
+    };
+
+    // Redraw each frame with the filter for the current prompt
+    let frame = 0;
+    const draw = () => {
+      if (video.videoWidth > 0) {
+        if (canvas.width !== video.videoWidth || canvas.height !== video.videoHeight) {
+          canvas.width = video.videoWidth;
+          canvas.height = video.videoHeight;
+        }
+        ctx.filter = mockFilterForPrompt(promptOf(this.params.get(streamId)));
+        ctx.drawImage(video, 0, 0);
+      }
+      frame = requestAnimationFrame(draw);
+    };
+
+    let ended = false;
+    const end = () => {
+      if (ended) return;
+      ended = true;
+      clearInterval(poll);
+      cancelAnimationFrame(frame);
+      pc.close();
+      stream.getTracks().forEach(track => track.stop());
+      this.outputs.delete(sessionId);
+      this.listeners.forEach(listener => listener());
+    };
+
+    // Apply trickled publisher candidates and notice when the publisher DELETEs the session
+    const poll = setInterval(async () => {
+      try {
+        const response = await fetch(`${this.baseUrl}/loopback/${sessionId}`);
+        const data = await response.json() as { candidates: RTCIceCandidateInit[]; ended: boolean };
+        if (!response.ok || data.ended) return end();
+        for (const candidate of data.candidates) {
+          await pc.addIceCandidate(candidate).catch(() => {});
+        }
+      } catch {
+        // Mock restarting, keep polling
+      }
+    }, 500);
+    pc.onconnectionstatechange = () => {
+      if (pc.connectionState === 'failed' || pc.connectionState === 'closed') end();
+    };
+
+    try {
+      await pc.setRemoteDescription({ type: 'offer', sdp: offer.sdp });
+      await pc.setLocalDescription(await pc.createAnswer());
+      // No trickle in this direction, the answer carries all candidates
+      await waitForIceGatheringComplete(pc, 2000);
+
+      this.outputs.set(sessionId, { streamId, playbackId, stream });
+      this.listeners.forEach(listener => listener());
+      frame = requestAnimationFrame(draw);
+
+      const response = await fetch(`${this.baseUrl}/loopback/${sessionId}/answer`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sdp: pc.localDescription!.sdp }),
+      });
+      if (!response.ok) throw new Error(`Answer rejected: ${response.status}`);
+    } catch (e) {
+      end();
+      throw e;
+    }
+  }
+}
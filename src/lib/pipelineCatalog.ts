@@ -0,0 +1,95 @@
+/**
+ * Pipeline catalog served by the daydream-pipelines edge function: the pipelines offered on
+ * /capture, each with a JSON Schema (subset) of its params and starting values.
+ *
+ * PipelineParamsForm renders the schema as form controls, so pipelines other than the curated
+ * streamdiffusion brew don't need hand-written JSON. Supported keywords:
+ * - type number/integer with minimum and maximum: slider (multipleOf is the step), otherwise a number input
+ * - enum, or oneOf of { const, title }: select
+ * - type boolean: switch
+ * - type string with contentMediaType image/*: image URL input with preview
+ * - type string: text input (textarea with x-multiline)
+ * - type object with properties: group of the above
+ * Other fields (arrays, untyped) aren't editable in the form and keep their value.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+
+export interface ParamSchema {
+  type?: 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array';
+  title?: string;
+  description?: string;
+  default?: unknown;
+  minimum?: number;
+  maximum?: number;
+  multipleOf?: number;
+  enum?: Array<string | number>;
+  oneOf?: Array<{ const: string | number; title?: string }>;
+  format?: string;
+  contentMediaType?: string;
+  properties?: Record<string, ParamSchema>;
+  required?: string[];
+  'x-multiline'?: boolean;
+}
+
+export interface PipelineCatalogEntry {
+  id: string; // pipeline name sent to the Daydream API
+  label: string;
+  description?: string;
+  params: ParamSchema; // object schema of the pipeline's params
+  defaults: Record<string, unknown>; // starting params when the pipeline is picked
+}
+
+export type ParamControl = 'slider' | 'number' | 'select' | 'switch' | 'image' | 'text' | 'textarea' | 'group';
+
+export interface ParamOption {
+  value: string | number;
+  label: string;
+}
+
+// Form control for a schema node, null when the form can't edit it
+export function getParamControl(schema: ParamSchema): ParamControl | null {
+  if (schema.oneOf?.length || schema.enum?.length) return 'select';
+  switch (schema.type) {
+    case 'number':
+    case 'integer':
+      return schema.minimum !== undefined && schema.maximum !== undefined ? 'slider' : 'number';
+    case 'boolean':
+      return 'switch';
+    case 'string':
+      if (schema.contentMediaType?.startsWith('image/')) return 'image';
+      return schema['x-multiline'] ? 'textarea' : 'text';
+    case 'object':
+      return schema.properties ? 'group' : null;
+    default:
+      return null;
+  }
+}
+
+export function getParamOptions(schema: ParamSchema): ParamOption[] {
+  if (schema.oneOf?.length) {
+    return schema.oneOf.map(option => ({ value: option.const, label: option.title ?? String(option.const) }));
+  }
+  return (schema.enum ?? []).map(value => ({ value, label: String(value) }));
+}
+
+// Slider step: multipleOf, whole numbers for integers, otherwise 100 steps over the range
+export function getParamStep(schema: ParamSchema): number {
+  if (schema.multipleOf) return schema.multipleOf;
+  if (schema.type === 'integer') return 1;
+  return ((schema.maximum ?? 1) - (schema.minimum ?? 0)) / 100;
+}
+
+/**
+ * Fetch the catalog. Throws on failure; /capture then keeps the current pipeline with the JSON editor
+ */
+export async function fetchPipelineCatalog(): Promise<PipelineCatalogEntry[]> {
+  const { data, error } = await supabase.functions.invoke('daydream-pipelines');
+
+  if (error) {
+    console.error('[DAYDREAM] Error fetching pipeline catalog:', error);
+    throw error;
+  }
+
+  return (data?.pipelines ?? []) as PipelineCatalogEntry[];
+}
@@ -0,0 +1,227 @@
+/**
+ * Pipeline registry: each Daydream pipeline declares a zod schema for its params, the defaults
+ * merged under caller params, and the fields that can't be changed live on a running stream
+ * (changing them makes the pipeline reload, pausing the output for a few seconds).
+ *
+ * DaydreamCanvas validates params against the schema before creating a stream or sending an
+ * update, so malformed params fail locally instead of as a 400 from the daydream-prompt function.
+ */
+
+import { z } from 'zod';
+import { ParamValidationError } from '@/lib/errors';
+
+export interface PipelineDefinition<P extends object = Record<string, unknown>> {
+  id: string; // pipeline name sent to the Daydream API
+  label: string;
+  schema: z.ZodType<P, z.ZodTypeDef, unknown>;
+  defaults: Partial<P>;
+  reloadFields: readonly string[]; // top-level fields that reload the pipeline when changed; all others are hot-updatable
+  // Set when the API merges partial updates: only changed top-level fields are sent, plus these.
+  // Without it every update sends the full params
+  partialUpdates?: { alwaysInclude: readonly string[] };
+}
+
+export interface StreamDiffusionParams {
+  model_id?: string;
+  prompt: string;
+  negative_prompt?: string;
+  num_inference_steps?: number;
+  seed?: number;
+  t_index_list?: number[];
+  controlnets?: Array<{
+    enabled?: boolean;
+    model_id: string;
+    preprocessor: string;
+    preprocessor_params?: Record<string, unknown>;
+    conditioning_scale: number;
+  }>;
+  ip_adapter?: {
+    enabled?: boolean;
+    type?: 'regular' | 'faceid';
+    scale?: number;
+    weight_type?: string;
+    insightface_model_name?: 'buffalo_l';
+  };
+  ip_adapter_style_image_url?: string;
+  width?: number; // output resolution, multiples of 64 (default 512)
+  height?: number;
+}
+
+// Unknown fields pass through, so params newer than this schema still reach the API
+const streamDiffusionParamsSchema = z.object({
+  model_id: z.string().min(1).optional(),
+  prompt: z.string(),
+  negative_prompt: z.string().optional(),
+  num_inference_steps: z.number().int().min(1).max(100).optional(),
+  seed: z.number().int().min(0).optional(),
+  t_index_list: z.array(z.number().int().min(0).max(49)).min(1).optional(),
+  controlnets: z.array(z.object({
+    enabled: z.boolean().optional(),
+    model_id: z.string().min(1),
+    preprocessor: z.string().min(1),
+    preprocessor_params: z.record(z.unknown()).optional(),
+    conditioning_scale: z.number().min(0).max(2),
+  }).passthrough()).optional(),
+  ip_adapter: z.object({
+    enabled: z.boolean().optional(),
+    type: z.enum(['regular', 'faceid']).optional(),
+    scale: z.number().min(0).max(2).optional(),
+    weight_type: z.string().optional(),
+    insightface_model_name: z.literal('buffalo_l').optional(),
+  }).passthrough().optional(),
+  ip_adapter_style_image_url: z.string().url().optional(),
+  width: z.number().int().min(64).multipleOf(64).optional(),
+  height: z.number().int().min(64).multipleOf(64).optional(),
+}).passthrough();
+
+// Default stream diffusion parameters
+export const DEFAULT_STREAMDIFFUSION_PARAMS = {
+  model_id: 'stabilityai/sdxl-turbo',
+  prompt: "psychedelia",
+  negative_prompt: 'blurry, low quality, flat, 2d, distorted',
+  num_inference_steps: 50,
+  seed: 42,
+  t_index_list: [6, 12, 18],
+  controlnets: [
+    {
+      enabled: true,
+      model_id: 'xinsir/controlnet-depth-sdxl-1.0',
+      preprocessor: 'depth_tensorrt',
+      preprocessor_params: {},
+      conditioning_scale: 0.6,
+    },
+    {
+      enabled: true,
+      model_id: 'xinsir/controlnet-canny-sdxl-1.0',
+      preprocessor: 'canny',
+      preprocessor_params: {},
+      conditioning_scale: 0.3,
+    },
+    {
+      enabled: true,
+      model_id: 'xinsir/controlnet-tile-sdxl-1.0',
+      preprocessor: 'feedback',
+      preprocessor_params: {},
+      conditioning_scale: 0.2,
+    },
+  ],
+  ip_adapter: {
+    enabled: false,
+    type: 'regular' as const,
+    scale: 0,
+    weight_type: 'linear' as const,
+    insightface_model_name: 'buffalo_l' as const,
+  },
+};
+
+export const streamDiffusionPipeline: PipelineDefinition<StreamDiffusionParams> = {
+  id: 'streamdiffusion',
+  label: 'StreamDiffusion',
+  // zod infers every field as optional without strictNullChecks, so pin the output type
+  schema: streamDiffusionParamsSchema as z.ZodType<StreamDiffusionParams, z.ZodTypeDef, unknown>,
+  defaults: DEFAULT_STREAMDIFFUSION_PARAMS,
+  reloadFields: ['model_id', 'width', 'height'],
+  // No partialUpdates: every update sends the full params. The API docs (PATCH /v1/streams/:id,
+  // docs/DAYDREAM_API_GUIDE.md "Update Stream Params") don't say partial bodies are merged, and
+  // a missing model_id or ip_adapter makes Daydream reload defaults (VIBEME.md, "Root Causes")
+};
+
+const registry = new Map<string, PipelineDefinition<object>>([
+  [streamDiffusionPipeline.id, streamDiffusionPipeline],
+]);
+
+export function registerPipeline<P extends object>(definition: PipelineDefinition<P>): void {
+  registry.set(definition.id, definition);
+}
+
+// Registered definition, or a permissive one (any JSON object, no defaults) for unknown pipelines
+export function getPipeline<P extends object = Record<string, unknown>>(id: string): PipelineDefinition<P> {
+  const definition = registry.get(id) ?? {
+    id,
+    label: id,
+    schema: z.record(z.unknown()),
+    defaults: {},
+    reloadFields: [],
+  };
+  return definition as PipelineDefinition<P>;
+}
+
+export function listPipelines(): PipelineDefinition<object>[] {
+  return [...registry.values()];
+}
+
+// Defaults merged under the given params (shallow, like the API's own merge)
+export function resolvePipelineParams<P extends object>(
+  definition: PipelineDefinition<P>,
+  params: P | undefined
+): P {
+  return { ...definition.defaults, ...(params || {}) } as P;
+}
+
+export function validatePipelineParams<P extends object>(definition: PipelineDefinition<P>, params: unknown): P {
+  const result = definition.schema.safeParse(params);
+  if (!result.success) {
+    throw new ParamValidationError(
+      definition.id,
+      result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    );
+  }
+  return result.data;
+}
+
+// Reload-only fields whose value differs between two param snapshots
+export function getReloadFields<P extends object>(
+  definition: PipelineDefinition<P>,
+  previous: P,
+  next: P
+): string[] {
+  const prev = previous as Record<string, unknown>;
+  const curr = next as Record<string, unknown>;
+  return definition.reloadFields.filter(field => !isEqualParam(prev[field], curr[field]));
+}
+
+function isEqualParam(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  const aRecord = a as Record<string, unknown>;
+  const bRecord = b as Record<string, unknown>;
+  const keys = Object.keys(aRecord);
+  if (keys.length !== Object.keys(bRecord).length) return false;
+  return keys.every(key => key in bRecord && isEqualParam(aRecord[key], bRecord[key]));
+}
+
+// Top-level fields that differ (deeply) between two param snapshots, including removed ones
+export function diffPipelineParams<P extends object>(previous: P, next: P): string[] {
+  const prev = previous as Record<string, unknown>;
+  const curr = next as Record<string, unknown>;
+  const keys = new Set([...Object.keys(prev), ...Object.keys(curr)]);
+  return [...keys].filter(key => !isEqualParam(prev[key], curr[key]));
+}
+
+export interface PipelineParamsUpdate<P extends object> {
+  params: Partial<P>; // body to send
+  changedFields: string[];
+  partial: boolean;
+}
+
+// Update body for moving a stream from the acknowledged params to the next ones. Falls back to the
+// full params when the pipeline has no partial updates or a field was removed (a diff can't unset it)
+export function buildPipelineParamsUpdate<P extends object>(
+  definition: PipelineDefinition<P>,
+  acknowledged: P | null,
+  next: P
+): PipelineParamsUpdate<P> {
+  const curr = next as Record<string, unknown>;
+  if (!acknowledged) {
+    return { params: next, changedFields: Object.keys(curr), partial: false };
+  }
+  const changedFields = diffPipelineParams(acknowledged, next);
+  const removed = changedFields.some(field => !(field in curr));
+  if (!definition.partialUpdates || removed || changedFields.length === 0) {
+    return { params: next, changedFields, partial: false };
+  }
+  const fields = new Set([...definition.partialUpdates.alwaysInclude, ...changedFields]);
+  const params = Object.fromEntries([...fields].filter(field => field in curr).map(field => [field, curr[field]]));
+  return { params: params as Partial<P>, changedFields, partial: true };
+}
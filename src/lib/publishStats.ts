@@ -0,0 +1,129 @@
+/**
+ * Normalized publish-side statistics for the WHIP peer connection, built on RTCPeerConnection.getStats().
+ * Rates (bitrate, packet loss) are computed against the previous sample.
+ */
+
+export type QualityLimitationReason = 'none' | 'cpu' | 'bandwidth' | 'other';
+
+export interface PublishStats {
+  timestamp: number; // ms (performance clock of the stats report)
+  connectionState: RTCPeerConnectionState;
+  video: {
+    codec: string | null; // e.g. "video/H264"
+    width: number | null;
+    height: number | null;
+    framesPerSecond: number | null;
+    framesEncoded: number;
+    bytesSent: number;
+    bitrate: number | null; // bps since previous sample
+    packetsSent: number;
+    packetsLost: number; // as reported by the remote receiver
+    packetLoss: number | null; // fraction 0-1 since previous sample
+    nackCount: number;
+    pliCount: number;
+    qualityLimitationReason: QualityLimitationReason | null;
+  };
+  audio: {
+    bytesSent: number;
+    bitrate: number | null;
+  };
+  roundTripTime: number | null; // ms, from the selected candidate pair
+  availableOutgoingBitrate: number | null; // bps, sender-side bandwidth estimate
+  localCandidateType: RTCIceCandidateType | null; // 'relay' when going through TURN
+}
+
+type StatsEntry = Record<string, unknown> & { id: string; type: string; timestamp: number };
+
+const num = (value: unknown): number | null => (typeof value === 'number' ? value : null);
+
+function findSelectedCandidatePair(report: Map<string, StatsEntry>): StatsEntry | null {
+  for (const entry of report.values()) {
+    if (entry.type === 'transport' && typeof entry.selectedCandidatePairId === 'string') {
+      return report.get(entry.selectedCandidatePairId) ?? null;
+    }
+  }
+  // Firefox has no transport stats; fall back to the nominated, succeeded pair
+  for (const entry of report.values()) {
+    if (entry.type === 'candidate-pair' && entry.nominated && entry.state === 'succeeded') {
+      return entry;
+    }
+  }
+  return null;
+}
+
+function computeRate(bytes: number, prevBytes: number | undefined, elapsedMs: number): number | null {
+  if (prevBytes === undefined || elapsedMs <= 0) return null;
+  return Math.max(0, ((bytes - prevBytes) * 8 * 1000) / elapsedMs);
+}
+
+export async function collectPublishStats(
+  pc: RTCPeerConnection,
+  previous?: PublishStats | null
+): Promise<PublishStats> {
+  const raw = await pc.getStats();
+  const report = new Map<string, StatsEntry>();
+  raw.forEach((entry: StatsEntry) => report.set(entry.id, entry));
+
+  let timestamp = 0;
+  let videoOutbound: StatsEntry | null = null;
+  let audioOutbound: StatsEntry | null = null;
+  let videoRemoteInbound: StatsEntry | null = null;
+
+  report.forEach(entry => {
+    timestamp = Math.max(timestamp, entry.timestamp);
+    if (entry.type === 'outbound-rtp' && entry.kind === 'video') videoOutbound = entry;
+    else if (entry.type === 'outbound-rtp' && entry.kind === 'audio') audioOutbound = entry;
+    else if (entry.type === 'remote-inbound-rtp' && entry.kind === 'video') videoRemoteInbound = entry;
+  });
+
+  const elapsedMs = previous ? timestamp - previous.timestamp : 0;
+  const pair = findSelectedCandidatePair(report);
+  const localCandidate = pair && typeof pair.localCandidateId === 'string'
+    ? report.get(pair.localCandidateId)
+    : null;
+  const codec = videoOutbound && typeof videoOutbound.codecId === 'string'
+    ? report.get(videoOutbound.codecId)
+    : null;
+
+  const videoBytesSent = num(videoOutbound?.bytesSent) ?? 0;
+  const audioBytesSent = num(audioOutbound?.bytesSent) ?? 0;
+  const packetsSent = num(videoOutbound?.packetsSent) ?? 0;
+  const packetsLost = num(videoRemoteInbound?.packetsLost) ?? 0;
+
+  let packetLoss: number | null = null;
+  if (previous) {
+    const sentDelta = packetsSent - previous.video.packetsSent;
+    const lostDelta = Math.max(0, packetsLost - previous.video.packetsLost);
+    packetLoss = sentDelta > 0 ? lostDelta / (sentDelta + lostDelta) : 0;
+  }
+
+  const rttSeconds = num(pair?.currentRoundTripTime) ?? num(videoRemoteInbound?.roundTripTime);
+
+  return {
+    timestamp,
+    connectionState: pc.connectionState,
+    video: {
+      codec: typeof codec?.mimeType === 'string' ? codec.mimeType : null,
+      width: num(videoOutbound?.frameWidth),
+      height: num(videoOutbound?.frameHeight),
+      framesPerSecond: num(videoOutbound?.framesPerSecond),
+      framesEncoded: num(videoOutbound?.framesEncoded) ?? 0,
+      bytesSent: videoBytesSent,
+      bitrate: computeRate(videoBytesSent, previous?.video.bytesSent, elapsedMs),
+      packetsSent,
+      packetsLost,
+      packetLoss,
+      nackCount: num(videoOutbound?.nackCount) ?? 0,
+      pliCount: num(videoOutbound?.pliCount) ?? 0,
+      qualityLimitationReason:
+        (videoOutbound?.qualityLimitationReason as QualityLimitationReason | undefined) ?? null,
+    },
+    audio: {
+      bytesSent: audioBytesSent,
+      bitrate: computeRate(audioBytesSent, previous?.audio.bytesSent, elapsedMs),
+    },
+    roundTripTime: rttSeconds !== null ? rttSeconds * 1000 : null,
+    availableOutgoingBitrate: num(pair?.availableOutgoingBitrate),
+    localCandidateType: (localCandidate?.candidateType as RTCIceCandidateType | undefined) ?? null,
+  };
+}
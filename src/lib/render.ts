@@ -0,0 +1,164 @@
+/**
+ * Frame drawing shared by the DaydreamCanvas main-thread loop and its render worker:
+ * fitting sources into the output (cover/contain/letterbox), front-camera mirroring, and blank frames.
+ */
+
+// 'raf': requestAnimationFrame ticker throttled to fps (works everywhere)
+// 'video-frame': draw on requestVideoFrameCallback, in sync with new source frames
+// 'worker': draw in a Web Worker on an OffscreenCanvas fed by MediaStreamTrackProcessor
+export type RenderMode = 'raf' | 'video-frame' | 'worker';
+
+export type Canvas2DContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+// 'cover': crop to fill the output
+// 'contain': fit inside the output with black bars
+// 'letterbox': fit inside the output over a blurred, cropped copy of the source (vertical video style)
+// 'stretch': scale to the output, ignoring the source aspect ratio
+export type FitMode = 'cover' | 'contain' | 'letterbox' | 'stretch';
+
+export interface DrawSourceOptions {
+  width: number; // output size in px
+  height: number;
+  fit: FitMode;
+  mirror: boolean; // flip horizontally (front camera selfie view)
+}
+
+export interface OutputDimensions {
+  width: number;
+  height: number;
+}
+
+export type AspectRatio = number | '1:1' | '9:16' | '16:9' | '4:5' | '3:4' | '4:3';
+
+// Parse 'w:h' (or a plain width/height number) into a ratio
+export function parseAspectRatio(aspectRatio: AspectRatio): number {
+  if (typeof aspectRatio === 'number') return aspectRatio;
+  const [w, h] = aspectRatio.split(':').map(Number);
+  return w / h;
+}
+
+// Resolve output dimensions: explicit width/height win, otherwise the long side is `size`.
+// Dimensions are rounded to even numbers, which video encoders require.
+export function resolveOutputDimensions({
+  size,
+  width,
+  height,
+  aspectRatio,
+}: {
+  size: number;
+  width?: number;
+  height?: number;
+  aspectRatio?: AspectRatio;
+}): OutputDimensions {
+  const even = (n: number) => Math.max(2, Math.round(n / 2) * 2);
+  if (width && height) return { width: even(width), height: even(height) };
+
+  const ratio = aspectRatio !== undefined ? parseAspectRatio(aspectRatio) : width || height ? NaN : 1;
+  if (width) return { width: even(width), height: even(Number.isFinite(ratio) ? width / ratio : width) };
+  if (height) return { width: even(Number.isFinite(ratio) ? height * ratio : height), height: even(height) };
+  if (!Number.isFinite(ratio) || ratio <= 0) return { width: even(size), height: even(size) };
+  return ratio >= 1
+    ? { width: even(size), height: even(size / ratio) }
+    : { width: even(size * ratio), height: even(size) };
+}
+
+// Messages from DaydreamCanvas to the render worker
+export type RenderWorkerMessage =
+  | { type: 'init'; canvas: OffscreenCanvas }
+  | { type: 'config'; width: number; height: number; fps: number; draw: DrawSourceOptions }
+  | { type: 'track'; readable: ReadableStream<VideoFrame> }
+  | { type: 'bitmap'; bitmap: ImageBitmap }
+  | { type: 'blank' }
+  | { type: 'stop' };
+
+// Compute draw rect for fitting a source into the output
+export function computeFitDrawRect(
+  srcWidth: number,
+  srcHeight: number,
+  destWidth: number,
+  destHeight: number,
+  fit: FitMode
+) {
+  if (fit === 'stretch') {
+    return { dx: 0, dy: 0, drawWidth: destWidth, drawHeight: destHeight };
+  }
+  // cover: source fills the output, cropping the overflow; contain/letterbox: source fits inside
+  const scale = fit === 'cover'
+    ? Math.max(destWidth / srcWidth, destHeight / srcHeight)
+    : Math.min(destWidth / srcWidth, destHeight / srcHeight);
+  const drawWidth = srcWidth * scale;
+  const drawHeight = srcHeight * scale;
+  const dx = (destWidth - drawWidth) / 2;
+  const dy = (destHeight - drawHeight) / 2;
+  return { dx, dy, drawWidth, drawHeight };
+}
+
+export function drawBlankFrame(ctx: Canvas2DContext): void {
+  ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+}
+
+// Draw one source frame fitted into the output, optionally mirrored
+export function drawSourceFrame(
+  ctx: Canvas2DContext,
+  source: CanvasImageSource,
+  srcWidth: number,
+  srcHeight: number,
+  { width, height, fit, mirror }: DrawSourceOptions
+): void {
+  // Clear before drawing (black bars for contain)
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+
+  if (mirror) {
+    ctx.setTransform(-1, 0, 0, 1, width, 0);
+  }
+
+  if (fit === 'letterbox') {
+    // Blurred, darkened cover copy fills the bars
+    const bg = computeFitDrawRect(srcWidth, srcHeight, width, height, 'cover');
+    ctx.save();
+    ctx.filter = 'blur(24px) brightness(0.6)';
+    ctx.drawImage(source, bg.dx, bg.dy, bg.drawWidth, bg.drawHeight);
+    ctx.restore();
+  }
+
+  const { dx, dy, drawWidth, drawHeight } = computeFitDrawRect(srcWidth, srcHeight, width, height, fit);
+  ctx.drawImage(source, dx, dy, drawWidth, drawHeight);
+
+  if (mirror) {
+    ctx.setTransform(1, 0, 0, 1, 0, 0); // Reset transform
+  }
+}
+
+// Resolve the requested render mode to the best one this browser supports
+export function resolveRenderMode(requested: RenderMode): RenderMode {
+  const supportsVideoFrameCallback =
+    typeof HTMLVideoElement !== 'undefined' && 'requestVideoFrameCallback' in HTMLVideoElement.prototype;
+  const supportsWorker =
+    typeof Worker !== 'undefined' &&
+    typeof HTMLCanvasElement !== 'undefined' &&
+    'transferControlToOffscreen' in HTMLCanvasElement.prototype &&
+    'MediaStreamTrackProcessor' in window;
+
+  if (requested === 'worker') {
+    if (supportsWorker) return 'worker';
+    return supportsVideoFrameCallback ? 'video-frame' : 'raf';
+  }
+  if (requested === 'video-frame') {
+    return supportsVideoFrameCallback ? 'video-frame' : 'raf';
+  }
+  return 'raf';
+}
+
+// MediaStreamTrackProcessor (Chromium) isn't in the TypeScript DOM lib yet
+interface MediaStreamTrackProcessorConstructor {
+  new (init: { track: MediaStreamTrack }): { readable: ReadableStream<VideoFrame> };
+}
+
+export function createVideoFrameReadable(track: MediaStreamTrack): ReadableStream<VideoFrame> {
+  const Processor = (window as unknown as { MediaStreamTrackProcessor: MediaStreamTrackProcessorConstructor })
+    .MediaStreamTrackProcessor;
+  return new Processor({ track }).readable;
+}
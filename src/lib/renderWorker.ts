@@ -0,0 +1,89 @@
+/**
+ * DaydreamCanvas render worker: draws source frames onto the transferred OffscreenCanvas
+ * off the main thread, so React re-renders and UI interaction don't drop input frames.
+ *
+ * Frames arrive as a VideoFrame stream (camera/stream sources), as ImageBitmaps posted
+ * from the main thread (canvas sources), or are generated here (blank source).
+ */
+
+import {
+  drawBlankFrame,
+  drawSourceFrame,
+  type DrawSourceOptions,
+  type RenderWorkerMessage,
+} from '@/lib/render';
+
+let ctx: OffscreenCanvasRenderingContext2D | null = null;
+let drawOptions: DrawSourceOptions = { width: 512, height: 512, fit: 'cover', mirror: false };
+let fps = 24;
+let reader: ReadableStreamDefaultReader<VideoFrame> | null = null;
+let blankIntervalId: ReturnType<typeof setInterval> | null = null;
+
+// Stop whatever source is currently feeding the canvas
+function stopSource() {
+  if (reader) {
+    reader.cancel().catch(() => {});
+    reader = null;
+  }
+  if (blankIntervalId !== null) {
+    clearInterval(blankIntervalId);
+    blankIntervalId = null;
+  }
+}
+
+async function readFrames(readable: ReadableStream<VideoFrame>) {
+  const currentReader = readable.getReader();
+  reader = currentReader;
+  try {
+    while (reader === currentReader) {
+      const { value: frame, done } = await currentReader.read();
+      if (done || !frame) break;
+      try {
+        if (ctx && reader === currentReader) {
+          drawSourceFrame(ctx, frame, frame.displayWidth, frame.displayHeight, drawOptions);
+        }
+      } finally {
+        frame.close();
+      }
+    }
+  } catch (e) {
+    console.error('[RenderWorker] Frame read failed:', e);
+  }
+}
+
+self.onmessage = (event: MessageEvent<RenderWorkerMessage>) => {
+  const message = event.data;
+  switch (message.type) {
+    case 'init':
+      ctx = message.canvas.getContext('2d', { alpha: false });
+      break;
+    case 'config':
+      if (ctx) {
+        if (ctx.canvas.width !== message.width) ctx.canvas.width = message.width;
+        if (ctx.canvas.height !== message.height) ctx.canvas.height = message.height;
+      }
+      drawOptions = message.draw;
+      fps = message.fps;
+      break;
+    case 'track':
+      stopSource();
+      void readFrames(message.readable);
+      break;
+    case 'bitmap':
+      if (ctx) {
+        drawSourceFrame(ctx, message.bitmap, message.bitmap.width, message.bitmap.height, drawOptions);
+      }
+      message.bitmap.close();
+      break;
+    case 'blank':
+      stopSource();
+      // Keep painting so captureStream keeps emitting frames
+      blankIntervalId = setInterval(() => {
+        if (ctx) drawBlankFrame(ctx);
+      }, 1000 / Math.max(1, fps));
+      break;
+    case 'stop':
+      stopSource();
+      break;
+  }
+};
@@ -0,0 +1,52 @@
+import { isRetryableError } from '@/lib/errors';
+
+export interface RetryPolicy {
+  maxRetries: number;
+  baseDelayMs: number; // doubled after each attempt
+  maxDelayMs?: number; // cap for the backoff delay
+  shouldRetry?: (error: unknown, attempt: number) => boolean; // default isRetryableError
+}
+
+// DaydreamCanvas operations with their own retry policy. createStream/updateParams/publish retry a
+// single request; reconnect re-publishes after the connection drops (shouldRetry doesn't apply,
+// the count resets after 10s connected)
+export type DaydreamOperation = 'createStream' | 'updateParams' | 'publish' | 'reconnect';
+
+export const DEFAULT_RETRY_POLICIES: Record<DaydreamOperation, RetryPolicy> = {
+  createStream: { maxRetries: 3, baseDelayMs: 1000 },
+  updateParams: { maxRetries: 3, baseDelayMs: 1000 },
+  publish: { maxRetries: 2, baseDelayMs: 1000 },
+  reconnect: { maxRetries: 3, baseDelayMs: 1000 },
+};
+
+// Retry an async operation with exponential backoff, failing fast on errors the policy won't retry
+export async function retryWithBackoff<T>(
+  fn: () => Promise<T>,
+  options: RetryPolicy & {
+    onRetry?: (attempt: number, error: unknown) => void;
+  }
+): Promise<T> {
+  const shouldRetry = options.shouldRetry ?? isRetryableError;
+  let lastError: unknown;
+  for (let attempt = 0; attempt <= options.maxRetries; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      lastError = error;
+
+      if (!shouldRetry(error, attempt + 1)) {
+        throw error; // Fail immediately (e.g. 4xx client errors)
+      }
+
+      if (attempt < options.maxRetries) {
+        const delay = Math.min(
+          options.baseDelayMs * Math.pow(2, attempt),
+          options.maxDelayMs ?? Number.POSITIVE_INFINITY
+        );
+        options.onRetry?.(attempt + 1, error);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+  throw lastError;
+}
@@ -0,0 +1,75 @@
+/**
+ * Daydream stream status (GET /v1/streams/:id/status), normalized from the raw API response.
+ *
+ * DaydreamCanvas polls it after publishing and holds params updates until the pipeline
+ * produces output, since updates sent while it is still loading can be dropped.
+ */
+
+export interface DaydreamStreamStatus {
+  state: string; // API state, e.g. 'ONLINE' or 'OFFLINE'
+  ready: boolean; // online and producing output frames
+  outputFps: number | null;
+  lastOutputTime: number | null; // ms since epoch
+  lastError: string | null;
+  whepUrl: string | null; // low-latency playback, available a few seconds after start
+}
+
+interface RawStreamStatus {
+  state?: string;
+  inference_status?: {
+    fps?: number | null;
+    last_output_time?: number | null;
+    last_error?: string | null;
+  };
+  gateway_status?: {
+    whep_url?: string | null;
+  };
+}
+
+// Accepts the API body ({ success, data }) or its data object
+export function parseStreamStatus(body: unknown): DaydreamStreamStatus {
+  const wrapped = body as { data?: RawStreamStatus } | null;
+  const raw: RawStreamStatus = (wrapped && typeof wrapped === 'object' && 'data' in wrapped
+    ? wrapped.data
+    : (body as RawStreamStatus)) ?? {};
+  const state = raw.state ?? 'UNKNOWN';
+  const outputFps = raw.inference_status?.fps ?? null;
+  const lastOutputTime = raw.inference_status?.last_output_time ?? null;
+
+  return {
+    state,
+    ready: state === 'ONLINE' && ((outputFps ?? 0) > 0 || lastOutputTime !== null),
+    outputFps,
+    lastOutputTime,
+    lastError: raw.inference_status?.last_error ?? null,
+    whepUrl: raw.gateway_status?.whep_url ?? null,
+  };
+}
+
+export interface WaitForStreamReadyOptions {
+  intervalMs?: number; // default 1000
+  timeoutMs?: number; // default 30000
+  isCancelled?: () => boolean; // checked before each poll
+}
+
+/**
+ * Poll until the stream is ready. Resolves true when ready, false on timeout or cancellation.
+ * Status errors are logged and polling continues, so a flaky endpoint only delays readiness.
+ */
+export async function waitForStreamReady(
+  getStatus: () => Promise<DaydreamStreamStatus>,
+  { intervalMs = 1000, timeoutMs = 30000, isCancelled }: WaitForStreamReadyOptions = {}
+): Promise<boolean> {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    if (isCancelled?.()) return false;
+    try {
+      const status = await getStatus();
+      if (status.ready) return true;
+    } catch (e) {
+      console.warn('[DAYDREAM] Stream status check failed:', e);
+    }
+    await new Promise(resolve => setTimeout(resolve, intervalMs));
+  }
+  return false;
+}
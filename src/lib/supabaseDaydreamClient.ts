@@ -1,24 +1,42 @@
-import { DaydreamStream, StreamDiffusionParams, DaydreamClient } from '@/components/DaydreamCanvas';
+import type { DaydreamStream, DaydreamClient, ListStreamsOptions } from '@/lib/daydreamPublisher';
+import { FunctionsHttpError } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
+import { DaydreamApiError } from '@/lib/errors';
+import { parseStreamList } from '@/lib/daydreamClient';
+import { getDaydreamEnvironment, getStreamEnvironment, rememberStreamEnvironment } from '@/lib/daydreamEnvironment';
+import { parseStreamStatus, type DaydreamStreamStatus } from '@/lib/streamStatus';
+
+/**
+ * Edge functions report Daydream API failures as { error, daydreamError, status }, with status
+ * being the Daydream API's own (the function may answer 400 for an upstream 404)
+ */
+const toDaydreamApiError = async (operation: string, error: unknown): Promise<unknown> => {
+  if (!(error instanceof FunctionsHttpError)) return error;
+  const response = error.context as Response;
+  const body = await response.json().catch(() => null);
+  const status = typeof body?.status === 'number' ? body.status : response.status;
+  return new DaydreamApiError(operation, status, body);
+}
 
 /**
  * Create a new Daydream stream with the specified pipeline
  * If initialParams provided, the edge function handles parameter initialization with retry logic
  */
-const createDaydreamStream = async (pipeline: string, initialParams?: StreamDiffusionParams): Promise<DaydreamStream> => {
+const createDaydreamStream = async (pipeline: string, initialParams?: object): Promise<DaydreamStream> => {
   console.log('[DAYDREAM] Creating stream with initialParams:', JSON.stringify(initialParams, null, 2));
 
+  const environment = getDaydreamEnvironment();
   const { data, error } = await supabase.functions.invoke('daydream-stream', {
     body: {
       pipeline,
       initialParams, // Will be sent as params to Daydream
-      isStaging: typeof window !== 'undefined' && new URLSearchParams(window.location.search).has('staging'),
+      environment,
     }
   });
 
   if (error) {
     console.error('[DAYDREAM] Error creating stream:', error);
-    throw error;
+    throw await toDaydreamApiError('createStream', error);
   }
   if (!data) {
     console.error('[DAYDREAM] No stream data returned from edge function');
@@ -26,16 +44,17 @@ const createDaydreamStream = async (pipeline: string, initialParams?: StreamDiff
   }
 
   console.log('[DAYDREAM] Stream created:', data);
+  rememberStreamEnvironment(data.id, data.environment ?? environment);
   return data as DaydreamStream;
 }
 
 /**
- * Update StreamDiffusion prompts for a stream
- * Sends the full params object as required by Daydream API
+ * Update the params of a running stream
+ * Sends the full params, or only the changed fields for pipelines with partial updates
  */
 const updateDaydreamPrompts = async (
   streamId: string,
-  params: StreamDiffusionParams,
+  params: object,
   pipeline: string = 'streamdiffusion'
 ): Promise<void> => {
   console.log('[DAYDREAM] Updating stream', streamId, 'with params:', JSON.stringify(params, null, 2));
@@ -45,18 +64,114 @@ const updateDaydreamPrompts = async (
       streamId,
       pipeline,
       params,
-      isStaging: typeof window !== 'undefined' && new URLSearchParams(window.location.search).has('staging')
+      environment: getStreamEnvironment(streamId)
     }
   });
 
   if (error) {
     console.error('[DAYDREAM] Error updating prompts:', error);
+    throw await toDaydreamApiError('updatePrompts', error);
+  }
+}
+
+/**
+ * Get the stream status, polled after publishing until the pipeline produces output
+ */
+const getDaydreamStreamStatus = async (streamId: string): Promise<DaydreamStreamStatus> => {
+  const { data, error } = await supabase.functions.invoke('daydream-stream-status', {
+    body: {
+      streamId,
+      environment: getStreamEnvironment(streamId)
+    }
+  });
+
+  if (error) {
+    console.error('[DAYDREAM] Error getting stream status:', error);
+    throw await toDaydreamApiError('getStreamStatus', error);
+  }
+
+  return parseStreamStatus(data);
+}
+
+/**
+ * Get a stream (current WHIP URL, playback ID and pipeline)
+ */
+const getDaydreamStream = async (streamId: string): Promise<DaydreamStream> => {
+  const { data, error } = await supabase.functions.invoke('daydream-stream-get', {
+    // get and delete use the environment recorded on the stream's session
+    body: { streamId }
+  });
+
+  if (error) {
+    console.error('[DAYDREAM] Error getting stream:', error);
+    throw await toDaydreamApiError('getStream', error);
+  }
+
+  return data as DaydreamStream;
+}
+
+/**
+ * End a stream so it stops running on our Daydream account
+ */
+const deleteDaydreamStream = async (streamId: string): Promise<void> => {
+  console.log('[DAYDREAM] Deleting stream', streamId);
+
+  const { error } = await supabase.functions.invoke('daydream-stream-delete', {
+    body: { streamId }
+  });
+
+  if (error) {
+    console.error('[DAYDREAM] Error deleting stream:', error);
+    throw await toDaydreamApiError('deleteStream', error);
+  }
+}
+
+/**
+ * List the signed-in user's streams that still exist, newest first
+ */
+const listDaydreamStreams = async ({ limit = 20, offset = 0 }: ListStreamsOptions = {}): Promise<DaydreamStream[]> => {
+  const environment = getDaydreamEnvironment();
+  const { data, error } = await supabase.functions.invoke('daydream-stream-list', {
+    body: {
+      limit,
+      offset,
+      environment,
+    }
+  });
+
+  if (error) {
+    console.error('[DAYDREAM] Error listing streams:', error);
+    throw await toDaydreamApiError('listStreams', error);
+  }
+
+  const streams = parseStreamList(data);
+  streams.forEach(stream => rememberStreamEnvironment(stream.id, environment));
+  return streams;
+}
+
+/**
+ * Fetch short-lived TURN credentials for the WHIP peer connection
+ */
+const getTurnIceServers = async (): Promise<RTCIceServer[]> => {
+  const { data, error } = await supabase.functions.invoke('turn-credentials');
+
+  if (error) {
+    console.error('[DAYDREAM] Error fetching TURN credentials:', error);
     throw error;
   }
+
+  return (data?.iceServers ?? []) as RTCIceServer[];
 }
 
-export const supabaseDaydreamClient: DaydreamClient = {
+// Params are validated by DaydreamCanvas against the pipeline schema, so any pipeline works.
+// Streams are created in the environment picked on /capture and later calls follow the stream (see daydreamEnvironment.ts)
+export const supabaseDaydreamClient: DaydreamClient<object> = {
   createStream: createDaydreamStream,
   updatePrompts: updateDaydreamPrompts,
+  getIceServers: getTurnIceServers,
+  getStreamStatus: getDaydreamStreamStatus,
+  getStream: getDaydreamStream,
+  deleteStream: deleteDaydreamStream,
+  listStreams: listDaydreamStreams,
 };
 
@@ -0,0 +1,417 @@
+/**
+ * WHIP (WebRTC-HTTP Ingestion Protocol, RFC 9725) publisher.
+ *
+ * POSTs the SDP offer to the WHIP endpoint and keeps the returned resource URL
+ * (`Location` header) for the session lifetime:
+ * - Trickle ICE candidates and ICE restarts are sent via PATCH (`application/trickle-ice-sdpfrag`)
+ * - `close()` DELETEs the resource so the ingest session is torn down server-side
+ */
+
+import { retryWithBackoff, type RetryPolicy } from '@/lib/retry';
+import { WhipNegotiationError } from '@/lib/errors';
+import { applyCodecPreference, type VideoCodec } from '@/lib/encoder';
+
+const TRICKLE_ICE_CONTENT_TYPE = 'application/trickle-ice-sdpfrag';
+
+// How long ICE may stay 'disconnected' before an ICE restart ('failed' restarts right away)
+const ICE_DISCONNECTED_GRACE_MS = 3000;
+
+// Public STUN servers used when no ICE servers are configured
+export const DEFAULT_ICE_SERVERS: RTCIceServer[] = [
+  { urls: 'stun:stun.l.google.com:19302' },
+  { urls: 'stun:stun1.l.google.com:19302' },
+  { urls: 'stun:stun2.l.google.com:19302' },
+];
+
+// 'trickle' sends the offer immediately and PATCHes candidates as they are gathered.
+// 'complete' waits for gathering to finish (bounded by iceGatheringTimeoutMs) and sends them in the offer.
+export type IceGatheringStrategy = 'trickle' | 'complete';
+
+export interface WhipPublishOptions {
+  iceServers?: RTCIceServer[]; // default DEFAULT_ICE_SERVERS
+  iceTransportPolicy?: RTCIceTransportPolicy; // 'relay' forces TURN-only paths, default 'all'
+  iceGathering?: IceGatheringStrategy; // default 'complete'; 'trickle' needs an endpoint that applies PATCHed candidates
+  iceGatheringTimeoutMs?: number; // only for 'complete', default 2000
+  videoCodec?: VideoCodec; // preferred video codec, browser default if unset
+  maxRetries?: number;
+  retryDelayBaseMs?: number;
+  retryDelayMaxMs?: number;
+  shouldRetry?: RetryPolicy['shouldRetry']; // default: retry network errors and non-4xx responses
+  onRetry?: (attempt: number, error: unknown) => void;
+  onConnectionStateChange?: (state: RTCPeerConnectionState) => void;
+  onRetryLimitExceeded?: () => void;
+}
+
+export interface WhipSession {
+  pc: RTCPeerConnection;
+  playbackUrl: string | null;
+  resourceUrl: string | null;
+  // ICE restart negotiated with the server via PATCH (falls back to a local restart without a resource URL)
+  restartIce: () => Promise<void>;
+  // Close the peer connection and DELETE the WHIP resource
+  close: () => Promise<void>;
+}
+
+interface SdpMediaSection {
+  mLine: string;
+  mid: string | null;
+  candidates: string[];
+}
+
+function getSdpAttribute(sdp: string, name: string): string | null {
+  const match = sdp.match(new RegExp(`^a=${name}:(.*)$`, 'm'));
+  return match ? match[1].trim() : null;
+}
+
+function parseMediaSections(sdp: string): SdpMediaSection[] {
+  return sdp
+    .split(/\r?\n(?=m=)/)
+    .filter(section => section.startsWith('m='))
+    .map(section => {
+      const lines = section.split(/\r?\n/);
+      return {
+        mLine: lines[0],
+        mid: getSdpAttribute(section, 'mid'),
+        candidates: lines.filter(l => l.startsWith('a=candidate:')),
+      };
+    });
+}
+
+// Build an SDP fragment (RFC 8840) carrying ICE credentials, candidates and/or end-of-candidates
+function buildSdpFragment(
+  localSdp: string,
+  candidates: RTCIceCandidate[],
+  endOfCandidates: boolean
+): string {
+  const lines: string[] = [];
+  const ufrag = getSdpAttribute(localSdp, 'ice-ufrag');
+  const pwd = getSdpAttribute(localSdp, 'ice-pwd');
+  if (ufrag) lines.push(`a=ice-ufrag:${ufrag}`);
+  if (pwd) lines.push(`a=ice-pwd:${pwd}`);
+
+  const sections = parseMediaSections(localSdp);
+  sections.forEach((section, index) => {
+    const sectionCandidates = candidates.filter(c =>
+      c.sdpMid != null ? c.sdpMid === section.mid : c.sdpMLineIndex === index
+    );
+    // Only the first (bundled) section is needed when there is nothing to say about the others
+    if (index > 0 && sectionCandidates.length === 0 && !endOfCandidates) return;
+
+    lines.push(section.mLine);
+    if (section.mid !== null) lines.push(`a=mid:${section.mid}`);
+    sectionCandidates.forEach(c => lines.push(`a=${c.candidate}`));
+    if (endOfCandidates) lines.push('a=end-of-candidates');
+  });
+
+  return lines.join('\r\n') + '\r\n';
+}
+
+// Rewrite the remote answer with the credentials and candidates from an ICE restart response fragment
+function applyRemoteSdpFragment(remoteSdp: string, fragment: string): string {
+  const ufrag = getSdpAttribute(fragment, 'ice-ufrag');
+  const pwd = getSdpAttribute(fragment, 'ice-pwd');
+  const fragmentSections = parseMediaSections(fragment);
+  const sessionCandidates = fragment
+    .split(/\r?\n/)
+    .filter(l => l.startsWith('a=candidate:'));
+
+  const [sessionPart, ...mediaParts] = remoteSdp.split(/\r?\n(?=m=)/);
+  const rewritten = mediaParts.map((section, index) => {
+    const lines = section
+      .split(/\r?\n/)
+      .filter(l => l && !l.startsWith('a=candidate:') && l !== 'a=end-of-candidates')
+      .map(l => {
+        if (ufrag && l.startsWith('a=ice-ufrag:')) return `a=ice-ufrag:${ufrag}`;
+        if (pwd && l.startsWith('a=ice-pwd:')) return `a=ice-pwd:${pwd}`;
+        return l;
+      });
+    const mid = getSdpAttribute(section, 'mid');
+    const matching = fragmentSections.find(s => s.mid === mid);
+    const candidates = matching
+      ? matching.candidates
+      : index === 0 && fragmentSections.length === 0
+        ? sessionCandidates
+        : [];
+    return [...lines, ...candidates].join('\r\n');
+  });
+
+  const sessionLines = sessionPart
+    .split(/\r?\n/)
+    .filter(Boolean)
+    .map(l => {
+      if (ufrag && l.startsWith('a=ice-ufrag:')) return `a=ice-ufrag:${ufrag}`;
+      if (pwd && l.startsWith('a=ice-pwd:')) return `a=ice-pwd:${pwd}`;
+      return l;
+    });
+
+  return [sessionLines.join('\r\n'), ...rewritten].join('\r\n') + '\r\n';
+}
+
+function waitForIceGatheringComplete(pc: RTCPeerConnection, timeoutMs: number): Promise<void> {
+  return Promise.race([
+    new Promise<void>((resolve) => {
+      if (pc.iceGatheringState === 'complete') {
+        resolve();
+      } else {
+        const checkState = () => {
+          if (pc.iceGatheringState === 'complete') {
+            pc.removeEventListener('icegatheringstatechange', checkState);
+            resolve();
+          }
+        };
+        pc.addEventListener('icegatheringstatechange', checkState);
+      }
+    }),
+    new Promise<void>((resolve) => setTimeout(resolve, timeoutMs)),
+  ]);
+}
+
+// Publish a MediaStream to a WHIP endpoint, retrying the initial negotiation with backoff
+export async function startWhipPublish(
+  whipUrl: string,
+  stream: MediaStream,
+  options: WhipPublishOptions = {}
+): Promise<WhipSession> {
+  const maxRetries = options.maxRetries ?? 2;
+  const retryDelayBaseMs = options.retryDelayBaseMs ?? 1000;
+  const iceGathering = options.iceGathering ?? 'complete';
+  const iceGatheringTimeoutMs = options.iceGatheringTimeoutMs ?? 2000;
+
+  const attemptConnection = async (): Promise<WhipSession> => {
+    const pc = new RTCPeerConnection({
+      iceServers: options.iceServers ?? DEFAULT_ICE_SERVERS,
+      iceTransportPolicy: options.iceTransportPolicy ?? 'all',
+      iceCandidatePoolSize: 3,
+    });
+
+    let resourceUrl: string | null = null;
+    let etag: string | null = null;
+    let closed = false;
+    let trickleSupported = iceGathering === 'trickle';
+    let restartInProgress = false;
+    let disconnectedTimer: ReturnType<typeof setTimeout> | null = null;
+
+    // Candidates gathered before the resource URL is known, or while a PATCH is in flight
+    let pendingCandidates: RTCIceCandidate[] = [];
+    let pendingEndOfCandidates = false;
+    let patchInFlight: Promise<void> | null = null;
+
+    const patchResource = (body: string, ifMatch: string | null) => {
+      const headers: Record<string, string> = { 'Content-Type': TRICKLE_ICE_CONTENT_TYPE };
+      if (ifMatch) headers['If-Match'] = ifMatch;
+      return fetch(resourceUrl!, { method: 'PATCH', headers, body });
+    };
+
+    // Send queued candidates in a single PATCH, serialized so fragments arrive in order
+    const flushCandidates = async (): Promise<void> => {
+      if (!trickleSupported || !resourceUrl || closed || restartInProgress) return;
+      if (patchInFlight) return;
+      if (pendingCandidates.length === 0 && !pendingEndOfCandidates) return;
+
+      const candidates = pendingCandidates;
+      const endOfCandidates = pendingEndOfCandidates;
+      pendingCandidates = [];
+      pendingEndOfCandidates = false;
+
+      patchInFlight = (async () => {
+        try {
+          const fragment = buildSdpFragment(pc.localDescription!.sdp, candidates, endOfCandidates);
+          const response = await patchResource(fragment, etag);
+          if (response.status === 405 || response.status === 501) {
+            // Server doesn't support trickle; it will rely on peer-reflexive candidates
+            trickleSupported = false;
+          } else if (!response.ok) {
+            console.warn(`[WHIP] Trickle ICE PATCH failed: ${response.status} ${response.statusText}`);
+          }
+        } catch (e) {
+          console.warn('[WHIP] Trickle ICE PATCH error:', e);
+        } finally {
+          patchInFlight = null;
+        }
+      })();
+      await patchInFlight;
+      // More candidates may have been queued while in flight
+      await flushCandidates();
+    };
+
+    if (iceGathering === 'trickle') {
+      pc.onicecandidate = (event) => {
+        if (event.candidate) {
+          if (!event.candidate.candidate) return; // legacy empty end-of-candidates marker
+          pendingCandidates.push(event.candidate);
+        } else {
+          pendingEndOfCandidates = true;
+        }
+        void flushCandidates();
+      };
+    }
+
+    const restartIce = async (): Promise<void> => {
+      if (closed || restartInProgress) return;
+      if (!resourceUrl || !trickleSupported) {
+        try {
+          pc.restartIce();
+        } catch {
+          // Ignore
+        }
+        return;
+      }
+
+      restartInProgress = true;
+      try {
+        if (patchInFlight) await patchInFlight;
+        pendingCandidates = [];
+        pendingEndOfCandidates = false;
+
+        const offer = await pc.createOffer({ iceRestart: true });
+        await pc.setLocalDescription(offer);
+
+        // New credentials with If-Match: * signals an ICE restart (RFC 9725 section 4.4.2)
+        const response = await patchResource(buildSdpFragment(offer.sdp!, [], false), '*');
+        if (response.status !== 200) {
+          throw new WhipNegotiationError(
+            `WHIP ICE restart failed: ${response.status} ${response.statusText}`,
+            'ice-restart',
+            response.status
+          );
+        }
+        etag = response.headers.get('ETag') || etag;
+
+        const answerFragment = await response.text();
+        await pc.setRemoteDescription({
+          type: 'answer',
+          sdp: applyRemoteSdpFragment(pc.remoteDescription!.sdp, answerFragment),
+        });
+      } catch (e) {
+        console.warn('[WHIP] ICE restart error:', e);
+        if (pc.signalingState === 'have-local-offer') {
+          await pc.setLocalDescription({ type: 'rollback' }).catch(() => {});
+        }
+      } finally {
+        restartInProgress = false;
+      }
+      // Send candidates gathered for the new credentials
+      await flushCandidates();
+    };
+
+    const close = async (): Promise<void> => {
+      if (closed) return;
+      closed = true;
+      if (disconnectedTimer) {
+        clearTimeout(disconnectedTimer);
+        disconnectedTimer = null;
+      }
+      try {
+        pc.close();
+      } catch {
+        // RTCPeerConnection already closed
+      }
+      if (!resourceUrl) return;
+      try {
+        await fetch(resourceUrl, { method: 'DELETE', keepalive: true });
+      } catch (e) {
+        console.warn('[WHIP] Failed to delete resource:', e);
+      }
+    };
+
+    pc.onconnectionstatechange = () => {
+      options.onConnectionStateChange?.(pc.connectionState);
+    };
+
+    // Handle ICE connection state changes. 'disconnected' often recovers by itself (e.g. a brief
+    // network switch), so only restart if it lasts past the grace period
+    pc.oniceconnectionstatechange = () => {
+      if (disconnectedTimer) {
+        clearTimeout(disconnectedTimer);
+        disconnectedTimer = null;
+      }
+      if (pc.iceConnectionState === 'failed') {
+        void restartIce();
+      } else if (pc.iceConnectionState === 'disconnected') {
+        disconnectedTimer = setTimeout(() => {
+          disconnectedTimer = null;
+          if (pc.iceConnectionState === 'disconnected') void restartIce();
+        }, ICE_DISCONNECTED_GRACE_MS);
+      }
+    };
+
+    try {
+      // Add all tracks from the stream
+      stream.getTracks().forEach(track => pc.addTrack(track, stream));
+      if (options.videoCodec) {
+        applyCodecPreference(pc, options.videoCodec);
+      }
+
+      // Create offer
+      const offer = await pc.createOffer({
+        offerToReceiveAudio: false,
+        offerToReceiveVideo: false,
+      });
+      await pc.setLocalDescription(offer);
+
+      if (iceGathering === 'complete') {
+        await waitForIceGatheringComplete(pc, iceGatheringTimeoutMs);
+      }
+
+      // Send offer to WHIP endpoint (with whatever candidates are already gathered)
+      const offerSdp = pc.localDescription!.sdp!;
+
+      const response = await fetch(whipUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/sdp',
+        },
+        body: offerSdp,
+      });
+
+      if (!response.ok) {
+        // 4xx responses aren't retried (see isRetryableError)
+        throw new WhipNegotiationError(
+          `WHIP publish failed: ${response.status} ${response.statusText}`,
+          'offer',
+          response.status
+        );
+      }
+
+      const location = response.headers.get('Location');
+      resourceUrl = location ? new URL(location, whipUrl).toString() : null;
+      etag = response.headers.get('ETag');
+
+      // Capture low-latency WebRTC playback URL from response headers
+      const playbackUrl = response.headers.get('livepeer-playback-url') || null;
+
+      // Get answer SDP and set it
+      const answerSdp = await response.text();
+      await pc.setRemoteDescription({
+        type: 'answer',
+        sdp: answerSdp,
+      });
+
+      // Flush candidates gathered while the offer was in flight
+      if (!resourceUrl) trickleSupported = false;
+      void flushCandidates();
+
+      return { pc, playbackUrl, resourceUrl, restartIce, close };
+    } catch (error) {
+      await close();
+      if (error instanceof WhipNegotiationError) throw error;
+      // Network errors, failed offers and rejected answers
+      throw new WhipNegotiationError(
+        `WHIP negotiation failed: ${error instanceof Error ? error.message : String(error)}`,
+        'offer'
+      );
+    }
+  };
+
+  // Initial attempt with retry wrapper
+  return retryWithBackoff(
+    attemptConnection,
+    {
+      maxRetries,
+      baseDelayMs: retryDelayBaseMs,
+      maxDelayMs: options.retryDelayMaxMs,
+      shouldRetry: options.shouldRetry,
+      onRetry: options.onRetry,
+    }
+  );
+}
@@ -4,6 +4,9 @@ import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { useIsMobile } from "@/hooks/use-mobile";
 import { useUser } from "@/hooks/useUser";
+import { useDaydreamStats } from "@/hooks/useDaydreamStats";
+import { useAudioLevel } from "@/hooks/useAudioLevel";
+import { useSessionHeartbeat } from "@/hooks/useSessionHeartbeat";
 import {
   Camera,
   Loader2,
@@ -13,8 +16,25 @@ import {
   RefreshCcw,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { ToastAction } from "@/components/ui/toast";
 import { supabaseDaydreamClient } from "@/lib/supabaseDaydreamClient";
-import { DaydreamCanvas, type StreamDiffusionParams } from "@/components/DaydreamCanvas";
+import { MockDaydreamClient } from "@/lib/mockDaydreamClient";
+import { getDaydreamEnvironment, getStreamEnvironment } from "@/lib/daydreamEnvironment";
+import { resolveOutputDimensions } from "@/lib/render";
+import {
+  DaydreamApiError,
+  MediaPermissionError,
+  ParamValidationError,
+  WhipNegotiationError,
+  type DaydreamCanvasError,
+} from "@/lib/errors";
+import {
+  DaydreamCanvas,
+  type DaydreamCanvasHandle,
+  type DaydreamCanvasStatus,
+  type ParamsUpdateEvent,
+  type StreamInfo,
+} from "@/components/DaydreamCanvas";
 import { DaydreamOutputPlayer } from "@/components/DaydreamOutputPlayer";
 import {
   StudioRecorder,
@@ -25,6 +45,13 @@ import {
   DiffusionParams,
   type BrewParams,
 } from "@/components/DiffusionParams";
+import { DaydreamEnvironmentPicker } from "@/components/DaydreamEnvironmentPicker";
+
+// VITE_DAYDREAM_MOCK_URL runs against the local mock server (npm run mock:daydream) instead of Daydream
+const mockDaydreamClient = import.meta.env.VITE_DAYDREAM_MOCK_URL
+  ? new MockDaydreamClient(import.meta.env.VITE_DAYDREAM_MOCK_URL)
+  : null;
+const daydreamClient = mockDaydreamClient ?? supabaseDaydreamClient;
 
 const DEFAULT_CUSTOM_PARAMS_JSON = '{\n  "prompts": [\n    {\n      "text": "A 3D animated scene. A **panda** walks along a path towards the camera in a park on a spring day."\n    }\n  ]\n}';
 
@@ -79,6 +106,50 @@ async function saveClipToDatabase(params: {
   return clip;
 }
 
+type ErrorRecovery = "retry" | "relay" | "reload" | "reset-params" | null;
+
+// User-facing message and recovery action for each DaydreamCanvas error class
+const describeDaydreamError = (
+  error: DaydreamCanvasError
+): { title: string; description: string; recovery: ErrorRecovery } => {
+  if (error instanceof MediaPermissionError) {
+    if (error.kind === "microphone") {
+      return { title: "Microphone unavailable", description: "Continuing without audio.", recovery: null };
+    }
+    if (error.reason === "denied") {
+      return {
+        title: "Camera access blocked",
+        description: "Allow camera access in your browser settings, then reload.",
+        recovery: "reload",
+      };
+    }
+    if (error.reason === "in-use") {
+      return { title: "Camera in use", description: "Close other apps using the camera and try again.", recovery: "reload" };
+    }
+    return { title: "No camera found", description: "Connect a camera and try again.", recovery: "reload" };
+  }
+  if (error instanceof WhipNegotiationError) {
+    return {
+      title: "Connection failed",
+      description: "Couldn't connect to the stream server. Restrictive networks may need a relay.",
+      recovery: "relay",
+    };
+  }
+  if (error instanceof DaydreamApiError) {
+    if (error.status === 429) {
+      return { title: "Daydream is busy", description: "Too many streams right now. Try again in a moment.", recovery: "retry" };
+    }
+    if (error.status >= 500) {
+      return { title: "Daydream is unavailable", description: "The service had a problem. Try again.", recovery: "retry" };
+    }
+    return { title: "Stream request rejected", description: error.message, recovery: "reload" };
+  }
+  if (error instanceof ParamValidationError) {
+    return { title: "Invalid effect settings", description: error.issues.join(", "), recovery: "reset-params" };
+  }
+  return { title: "Something went wrong", description: error.message, recovery: "retry" };
+};
+
 // Read brew params from query string on initial load
 const readBrewParamsFromQuery = (searchParams: URLSearchParams): BrewParams => {
   const prompt = searchParams.get("prompt") || "";
@@ -161,12 +232,15 @@ export default function Capture() {
   const [playbackId, setPlaybackId] = useState<string | null>(null);
   const [autoStartChecked, setAutoStartChecked] = useState(false);
   const [playbackUrl, setPlaybackUrl] = useState<string | null>(null);
+  const [mockOutput, setMockOutput] = useState<MediaStream | null>(null); // loopback output with the mock client
 
   // Diffusion parameters state - initialize from query string
   const [brewParams, setBrewParams] = useState<BrewParams>(() =>
     readBrewParamsFromQuery(searchParams)
   );
-  const [canvasParams, setCanvasParams] = useState<StreamDiffusionParams | null>(null);
+  const [canvasParams, setCanvasParams] = useState<object | null>(null); // for the selected pipeline
+  const daydreamCanvasRef = useRef<DaydreamCanvasHandle>(null);
+  const [canvasStatus, setCanvasStatus] = useState<DaydreamCanvasStatus>("idle");
   const [isJsonValid, setIsJsonValid] = useState(true);
 
   const [recording, setRecording] = useState(false);
@@ -178,6 +252,11 @@ export default function Capture() {
   const [uploadProgress, setUploadProgress] = useState<string>("");
   const [lastDisplayedProgress, setLastDisplayedProgress] = useState<number>(0);
   const [micEnabled, setMicEnabled] = useState(false);
+  // Selected Daydream environment (staff only)
+  const [daydreamEnvironment, setDaydreamEnvironment] = useState(getDaydreamEnvironment);
+  const [audioAnalyser, setAudioAnalyser] = useState<AnalyserNode | null>(null);
+  // Latest params update lifecycle, for the debug panel
+  const [paramsUpdate, setParamsUpdate] = useState<ParamsUpdateEvent | null>(null);
   const [micPermissionDenied, setMicPermissionDenied] = useState(false);
 
   // Debug information from onDaydreamReady
@@ -191,6 +270,10 @@ export default function Capture() {
     playbackUrl: null,
   });
 
+  // Publish-side WebRTC stats (only collected when the debug panel is shown)
+  const { stats: publishStats, onStats: onPublishStats } = useDaydreamStats();
+
+
   const studioRecorderRef = useRef<StudioRecorderHandle | null>(null);
   const playerContainerRef = useRef<HTMLDivElement>(null);
   const autoStopTimerRef = useRef<NodeJS.Timeout | null>(null);
@@ -212,6 +295,20 @@ export default function Capture() {
     }
     return /@livepeer\.(org|com)$/.test(user?.email ?? "");
   }, [user?.email, searchParams]);
+  // ?audioGraph publishes the mic through the audio graph (compressor + noise gate) instead of as-is
+  const audioGraphEnabled = searchParams.has("audioGraph");
+  // Mic level for the debug panel
+  const audioLevel = useAudioLevel(showAdvancedControls ? audioAnalyser : null);
+
+  // Output aspect ratio: ?aspect=9:16 for vertical clips, ?aspect=16:9 for landscape (square by default)
+  const aspectRatio = useMemo(() => {
+    const aspect = searchParams.get("aspect");
+    return aspect === "9:16" || aspect === "16:9" ? aspect : "1:1";
+  }, [searchParams]);
+  const outputDimensions = useMemo(
+    () => resolveOutputDimensions({ size: 512, aspectRatio }),
+    [aspectRatio]
+  );
 
   const onParamsError = useCallback((err: Error) => {
     toast({title: "Error", description: err.message, variant: "destructive"});
@@ -234,13 +331,6 @@ export default function Capture() {
     }
   }, [toast]);
 
-  const initializeStream = useCallback(
-    async (_type: "user" | "environment", _initialPrompt: string) => {
-      setLoading(true);
-    },
-    []
-  );
-
 
   const selectCamera = useCallback(async (type: "user" | "environment") => {
     setCameraType(type);
@@ -460,7 +550,11 @@ export default function Capture() {
           prompt: brewParams.prompt,
           textureId: brewParams.texture,
           textureWeight: brewParams.texture ? brewParams.textureWeight : null,
-          tIndexList: canvasParams?.t_index_list || [],
+          // Only StreamDiffusion params have a t_index_list
+          tIndexList:
+            canvasParams && "t_index_list" in canvasParams && Array.isArray(canvasParams.t_index_list)
+              ? canvasParams.t_index_list
+              : [],
         });
 
         // Set flag to avoid double saving on uploadDone/complete
@@ -558,6 +652,17 @@ export default function Capture() {
     }
   }, [recording]);
 
+  // With the mock client, play its loopback output instead of the Livepeer playback
+  useEffect(() => {
+    if (!mockDaydreamClient || !streamId) {
+      setMockOutput(null);
+      return;
+    }
+    const update = () => setMockOutput(mockDaydreamClient.getOutputStream(streamId));
+    update();
+    return mockDaydreamClient.onOutputChange(update);
+  }, [streamId]);
+
   // Listen for video playback to enable recording
   useEffect(() => {
     if (playerContainerRef.current) {
@@ -583,7 +688,7 @@ export default function Capture() {
         };
       }
     }
-  }, [playbackUrl]);
+  }, [playbackUrl, mockOutput]);
 
   // Cleanup timer on unmount
   useEffect(() => {
@@ -595,7 +700,8 @@ export default function Capture() {
     };
   }, []);
 
-  // Handle tab visibility changes - stop streams when user leaves tab (mobile only)
+  // Handle tab visibility changes (mobile only). DaydreamCanvas suspends publishing while hidden
+  // and resumes the same stream on return, so the playback ID and session stay the same
   useEffect(() => {
     const handleVisibilityChange = () => {
       // Detect actual mobile/tablet devices (not just screen size)
@@ -614,15 +720,10 @@ export default function Capture() {
       }
 
       if (document.hidden) {
-        // User left the tab - record the time and stop streams immediately
-        console.log("Tab hidden (mobile) - stopping media streams for privacy");
+        // User left the tab - DaydreamCanvas stops the camera for privacy but keeps the stream
+        console.log("Tab hidden (mobile) - suspending stream");
         tabHiddenTimeRef.current = Date.now();
         wasStreamActiveRef.current = !!playbackUrl; // Remember if we had an active stream
-
-        // Clear the playback and stream state to show loading when they return
-        setPlaybackId(null);
-        setPlaybackUrl(null);
-        setStreamId(null);
         setIsPlaying(false);
       } else {
         // User returned to the tab
@@ -630,15 +731,13 @@ export default function Capture() {
           const timeAway = Date.now() - tabHiddenTimeRef.current;
           console.log(`Tab visible again after ${timeAway}ms away`);
 
-          // If user was gone for more than 5 seconds, restart the stream
+          // If user was gone for more than 5 seconds, let them know the output is catching up
           if (timeAway > 5000 && cameraType) {
-            console.log("User was away >5s, restarting stream...");
+            console.log("User was away >5s, resuming stream...");
             toast({
-              title: "Restarting stream",
+              title: "Resuming stream",
               description: "Reconnecting your camera...",
             });
-            // Restart the stream with the same camera type and current prompt
-            initializeStream(cameraType, brewParams.prompt);
           }
 
           // Reset the tracking variables
@@ -653,7 +752,7 @@ export default function Capture() {
     return () => {
       document.removeEventListener("visibilitychange", handleVisibilityChange);
     };
-  }, [cameraType, playbackUrl, brewParams.prompt, initializeStream, toast]);
+  }, [cameraType, playbackUrl, toast]);
 
   // Show reassuring message if stream takes longer than 10s to load
   useEffect(() => {
@@ -715,8 +814,27 @@ export default function Capture() {
     }
   }, [brewParams, cameraType, location.pathname, navigate, searchParams]);
 
+  // Stream whose session row exists, so a heartbeat 404 means the janitor ended it
+  const [sessionStreamId, setSessionStreamId] = useState<string | null>(null);
+
+  // The janitor deleted the stream (e.g. the device slept past its timeout): start a new one
+  const onSessionEnded = useCallback(() => {
+    toast({
+      title: "Stream ended",
+      description: "The stream was idle for too long, starting a new one.",
+    });
+    void daydreamCanvasRef.current?.restart();
+  }, [toast]);
+
+  // Heartbeat while publishing, so the session janitor only ends streams of abandoned sessions
+  useSessionHeartbeat(
+    sessionStreamId,
+    canvasStatus === "connected" || canvasStatus === "reconnecting",
+    onSessionEnded
+  );
+
   const onDaydreamReady = useCallback(
-    async ({ streamId: sid, playbackId: pid, playbackUrl: purl }) => {
+    async ({ streamId: sid, playbackId: pid, playbackUrl: purl, resumed }: StreamInfo) => {
       setStreamId(sid);
       setPlaybackId(pid);
       setPlaybackUrl(purl || null);
@@ -730,7 +848,9 @@ export default function Capture() {
       });
 
       // Ensure session exists - user is guaranteed to exist from useUser hook
-      if (!user) return;
+      // A resumed stream already has its session row
+      if (resumed) setSessionStreamId(sid);
+      if (!user || resumed) return;
 
       // Map UI cameraType ('user'|'environment') to DB enum ('front'|'back')
       const sessionObj = {
@@ -738,6 +858,7 @@ export default function Capture() {
         stream_id: sid,
         playback_id: pid,
         camera_type: cameraType === "user" ? "front" : "back",
+        daydream_environment: getStreamEnvironment(sid),
       };
       const { error: insertError } = await supabase
         .from("sessions")
@@ -750,17 +871,73 @@ export default function Capture() {
           description: insertError.message,
           variant: "destructive",
         });
+        return;
       }
+      setSessionStreamId(sid);
     },
     [cameraType, toast, user]
   );
+  // Relay-only ICE (?relay), also switched on by the "Use relay" error recovery
+  const relayOnly = searchParams.has("relay");
+  const restartOnRelayRef = useRef(false);
+
+  // Runs after DaydreamCanvas pushed the new policy to the publisher (child effects run first)
+  useEffect(() => {
+    if (!relayOnly || !restartOnRelayRef.current) return;
+    restartOnRelayRef.current = false;
+    void daydreamCanvasRef.current?.restart();
+  }, [relayOnly]);
+
   // Rely on onReady + player events; no onStatus needed
   const onDaydreamError = useCallback(
-    (e) => {
+    (e: DaydreamCanvasError) => {
       console.error("DaydreamCanvas error", e);
       setLoading(false);
+
+      if (e instanceof MediaPermissionError && e.kind === "microphone") {
+        setMicEnabled(false);
+        setMicPermissionDenied(e.reason === "denied");
+      }
+
+      const { title, description, recovery } = describeDaydreamError(e);
+      // Already on relay: a plain retry is all that's left
+      const action = recovery === "relay" && relayOnly ? "retry" : recovery;
+      const runRecovery = () => {
+        if (action === "retry") {
+          void daydreamCanvasRef.current?.restart();
+        } else if (action === "relay") {
+          // Restarted by the effect below once the relay-only ICE policy reached the canvas
+          restartOnRelayRef.current = true;
+          setSearchParams((prev) => {
+            const next = new URLSearchParams(prev);
+            next.set("relay", "1");
+            return next;
+          });
+        } else if (action === "reload") {
+          window.location.reload();
+        } else if (action === "reset-params") {
+          setBrewParams(readBrewParamsFromQuery(new URLSearchParams()));
+        }
+      };
+      const actionLabel = {
+        retry: "Retry",
+        relay: "Use relay",
+        reload: "Reload",
+        "reset-params": "Reset",
+      } as const;
+
+      toast({
+        title,
+        description,
+        variant: "destructive",
+        action: action ? (
+          <ToastAction altText={actionLabel[action]} onClick={runRecovery}>
+            {actionLabel[action]}
+          </ToastAction>
+        ) : undefined,
+      });
     },
-    [setLoading]
+    [setLoading, relayOnly, setSearchParams, toast]
   );
 
   // Determine video source based on setup state
@@ -890,6 +1067,7 @@ export default function Capture() {
               onError={onParamsError}
               onJsonValidityChange={setIsJsonValid}
             />
+            <DaydreamEnvironmentPicker className="mt-4" onChange={setDaydreamEnvironment} />
           </div>
         </div>
 
@@ -932,15 +1110,20 @@ export default function Capture() {
       >
         {/* Video Section with Output Player */}
         <div className="flex-shrink-0 px-4 pt-4 pb-3 bg-neutral-950">
-          <div className="relative w-full max-w-md mx-auto aspect-square bg-neutral-950 rounded-3xl overflow-hidden border border-neutral-900 shadow-lg">
+          <div
+            className={`relative ${aspectRatio === "9:16" ? "h-[65vh] max-w-full" : "w-full max-w-md"} mx-auto bg-neutral-950 rounded-3xl overflow-hidden border border-neutral-900 shadow-lg`}
+            style={{ aspectRatio: aspectRatio.replace(":", " / ") }}
+          >
             <StudioRecorder
               ref={studioRecorderRef}
+              width={outputDimensions.width}
+              height={outputDimensions.height}
               onProgress={handleRecordingProgress}
               onUploadDone={handleUploadDone}
               onComplete={handleRecordingComplete}
               onError={handleRecordingError}
             >
-              {playbackUrl ? (
+              {playbackUrl || mockOutput ? (
                 <div
                   ref={playerContainerRef}
                   className="player-container w-full h-full [&_[data-radix-aspect-ratio-wrapper]]:!h-full [&_[data-radix-aspect-ratio-wrapper]]:!pb-0"
@@ -952,6 +1135,9 @@ export default function Capture() {
                 >
                   <DaydreamOutputPlayer
                     playbackUrl={playbackUrl}
+                    mediaStream={mockOutput}
+                    width={outputDimensions.width}
+                    height={outputDimensions.height}
                     showSlowLoadingMessage={showSlowLoadingMessage}
                   />
                 </div>
@@ -963,19 +1149,37 @@ export default function Capture() {
             </StudioRecorder>
 
             {/* DaydreamCanvas: camera input preview (PiP in bottom-right) */}
-            <div className="absolute bottom-3 right-3 w-20 h-20 rounded-2xl overflow-hidden border-2 border-white shadow-lg">
+            <div
+              className="absolute bottom-3 right-3 h-20 rounded-2xl overflow-hidden border-2 border-white shadow-lg"
+              style={{ aspectRatio: aspectRatio.replace(":", " / ") }}
+            >
               {user && <DaydreamCanvas
-                client={supabaseDaydreamClient}
+                // A new environment needs a new stream: remounting stops (and deletes) the pre-warmed one
+                key={daydreamEnvironment}
+                ref={daydreamCanvasRef}
+                client={daydreamClient}
                 size={512}
+                aspectRatio={aspectRatio}
                 className="w-full h-full object-cover"
                 videoSource={videoSource}
                 audioSource={
-                  micEnabled ? { type: "microphone" } : { type: "silent" }
+                  !micEnabled
+                    ? { type: "silent" }
+                    : audioGraphEnabled
+                    ? { type: "graph", microphone: true, compressor: true, noiseGate: true }
+                    : { type: "microphone" }
                 }
                 params={canvasParams}
                 pipeline={pipeline}
+                iceTransportPolicy={relayOnly ? "relay" : "all"}
+                contentHint="motion"
+                adaptiveBitrate
                 onReady={onDaydreamReady}
                 onError={onDaydreamError}
+                onStatusChange={setCanvasStatus}
+                onStats={showAdvancedControls ? onPublishStats : undefined}
+                onParamsApplied={showAdvancedControls ? setParamsUpdate : undefined}
+                onAudioAnalyser={setAudioAnalyser}
               />}
             </div>
 
@@ -1086,6 +1290,7 @@ export default function Capture() {
               cameraType={cameraType}
               brewParams={brewParams}
               showAdvancedControls={showAdvancedControls}
+              allowPipelineChange={false}
               onBrewParamsChange={setBrewParams}
               handleStreamDiffusionParams={setCanvasParams}
               onError={onParamsError}
@@ -1115,6 +1320,54 @@ export default function Capture() {
                     <span className="text-neutral-500">Playback URL:</span>
                     <span className="text-neutral-300 break-all">{debugInfo.playbackUrl}</span>
                   </div>
+                  {publishStats && (
+                    <>
+                      <div className="flex items-center gap-2">
+                        <span className="text-neutral-500">Publish:</span>
+                        <span className="text-neutral-300">
+                          {publishStats.video.width ?? "?"}x{publishStats.video.height ?? "?"} @{" "}
+                          {publishStats.video.framesPerSecond ?? 0}fps,{" "}
+                          {Math.round((publishStats.video.bitrate ?? 0) / 1000)} kbps
+                          {publishStats.video.codec && ` (${publishStats.video.codec.replace("video/", "")})`}
+                        </span>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <span className="text-neutral-500">Network:</span>
+                        <span className="text-neutral-300">
+                          RTT {publishStats.roundTripTime !== null ? `${Math.round(publishStats.roundTripTime)}ms` : "?"},
+                          loss {((publishStats.video.packetLoss ?? 0) * 100).toFixed(1)}%
+                          {publishStats.localCandidateType && `, ${publishStats.localCandidateType}`}
+                        </span>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <span className="text-neutral-500">Quality limit:</span>
+                        <span className="text-neutral-300">{publishStats.video.qualityLimitationReason ?? "?"}</span>
+                      </div>
+                    </>
+                  )}
+                  {paramsUpdate && (
+                    <div className="flex items-center gap-2">
+                      <span className="text-neutral-500">Params:</span>
+                      <span className={paramsUpdate.state === "failed" ? "text-red-400" : "text-neutral-300"}>
+                        #{paramsUpdate.id} {paramsUpdate.state} {paramsUpdate.latencyMs}ms
+                        {paramsUpdate.changedFields?.length ? ` (${paramsUpdate.changedFields.join(", ")})` : ""}
+                      </span>
+                    </div>
+                  )}
+                  {audioAnalyser && (
+                    <div className="flex items-center gap-2">
+                      <span className="text-neutral-500">Mic level:</span>
+                      <div className="h-1.5 w-24 rounded-full bg-neutral-800 overflow-hidden">
+                        <div
+                          className="h-full bg-green-500 transition-[width] duration-75"
+                          style={{ width: `${Math.round(audioLevel.peak * 100)}%` }}
+                        />
+                      </div>
+                      <span className="text-neutral-300">
+                        {Number.isFinite(audioLevel.db) ? `${Math.round(audioLevel.db)} dB` : "-∞"}
+                      </span>
+                    </div>
+                  )}
                 </div>
               </div>
             )}
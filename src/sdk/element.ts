@@ -0,0 +1,16 @@
+/**
+ * @brewdream/daydream-sdk/element: registers <daydream-canvas> on import (see src/lib/daydreamCanvasElement.ts).
+ * Kept out of the main entry because it extends HTMLElement at module load, which breaks server-side imports.
+ */
+
+import { defineDaydreamCanvasElement } from '@/lib/daydreamCanvasElement';
+
+export * from '@/sdk/index';
+export {
+  DaydreamCanvasElement,
+  defineDaydreamCanvasElement,
+  parseSourceAttribute,
+  type DaydreamCanvasElementEventMap,
+} from '@/lib/daydreamCanvasElement';
+
+defineDaydreamCanvasElement();
@@ -0,0 +1,53 @@
+/**
+ * @brewdream/daydream-sdk: framework-agnostic entry (no React).
+ * See sdk/README.md; the React component is in the '/react' entry and <daydream-canvas> in '/element'.
+ */
+
+export {
+  DaydreamPublisher,
+  type DaydreamAudioSource,
+  type DaydreamClient,
+  type DaydreamPublisherOptions,
+  type DaydreamPublisherStatus,
+  type DaydreamStream,
+  type DaydreamVideoSource,
+  type ListStreamsOptions,
+  type ParamsUpdateEvent,
+  type ParamsUpdatePolicy,
+  type ParamsUpdateState,
+  type StreamInfo,
+} from '@/lib/daydreamPublisher';
+export { DaydreamApiClient } from '@/lib/daydreamClient';
+export { EdgeFunctionDaydreamClient, type EdgeFunctionToken } from '@/lib/edgeFunctionClient';
+export {
+  DEFAULT_STREAMDIFFUSION_PARAMS,
+  getPipeline,
+  listPipelines,
+  registerPipeline,
+  streamDiffusionPipeline,
+  validatePipelineParams,
+  type PipelineDefinition,
+  type StreamDiffusionParams,
+} from '@/lib/pipelines';
+export {
+  DaydreamApiError,
+  MediaPermissionError,
+  ParamValidationError,
+  WhipNegotiationError,
+  isRetryableError,
+  type DaydreamCanvasError,
+} from '@/lib/errors';
+export { DEFAULT_RETRY_POLICIES, type DaydreamOperation, type RetryPolicy } from '@/lib/retry';
+export { parseStreamStatus, type DaydreamStreamStatus } from '@/lib/streamStatus';
+export {
+  createBrightnessContrastProcessor,
+  createLutProcessor,
+  createOverlayProcessor,
+  type FrameProcessor,
+} from '@/lib/frameProcessors';
+export type { CompositeLayer } from '@/lib/compositor';
+export type { CameraCapabilities, CameraSettings } from '@/lib/camera';
+export type { AudioGraphOptions } from '@/lib/audioGraph';
+export type { PublishStats } from '@/lib/publishStats';
+export type { VideoCodec } from '@/lib/encoder';
+export type { AspectRatio, FitMode, RenderMode } from '@/lib/render';
@@ -0,0 +1,12 @@
+/**
+ * @brewdream/daydream-sdk/react: DaydreamCanvas (a thin wrapper around DaydreamPublisher) and the output player.
+ */
+
+export * from '@/sdk/index';
+export {
+  DaydreamCanvas,
+  type DaydreamCanvasHandle,
+  type DaydreamCanvasProps,
+  type DaydreamCanvasStatus,
+} from '@/components/DaydreamCanvas';
+export { DaydreamOutputPlayer } from '@/components/DaydreamOutputPlayer';
@@ -0,0 +1,126 @@
+// Daydream environments the edge functions can talk to. Keys and base URLs only live here (and in
+// function secrets); callers pick an environment by name and anything but prod is staff-only.
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+
+export const DEFAULT_ENVIRONMENT = 'prod';
+
+interface EnvironmentConfig {
+  label: string;
+  baseUrl: string | undefined; // unset: environment not available in this deployment
+  apiKeyEnvName: string | null; // null: no key needed
+}
+
+const ENVIRONMENTS: Record<string, EnvironmentConfig> = {
+  prod: {
+    label: 'Production',
+    baseUrl: 'https://api.daydream.live',
+    apiKeyEnvName: 'DAYDREAM_API_KEY',
+  },
+  staging: {
+    label: 'Staging',
+    baseUrl: 'https://api.daydream.monster',
+    apiKeyEnvName: 'STAGING_DAYDREAM_API_KEY',
+  },
+  // scripts/mock-daydream-server.mjs, for `supabase functions serve` (accepts any bearer token)
+  local: {
+    label: 'Local mock',
+    baseUrl: Deno.env.get('DAYDREAM_LOCAL_URL'),
+    apiKeyEnvName: null,
+  },
+};
+
+// Same check as showAdvancedControls on /capture
+const STAFF_EMAIL = /@livepeer\.(org|com)$/;
+
+export interface DaydreamEnvironment {
+  name: string;
+  baseUrl: string;
+  apiKey: string;
+}
+
+export interface DaydreamEnvironmentOption {
+  name: string;
+  label: string;
+}
+
+// Thrown for environments the caller can't use; status is the HTTP status to answer with
+export class EnvironmentError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'EnvironmentError';
+  }
+}
+
+function isConfigured(config: EnvironmentConfig): boolean {
+  return !!config.baseUrl && (!config.apiKeyEnvName || !!Deno.env.get(config.apiKeyEnvName));
+}
+
+/**
+ * Environment by name, without checking who is asking. For callers that read the name from the
+ * database (e.g. the session janitor); requests go through resolveDaydreamEnvironment
+ */
+export function getDaydreamEnvironment(name: string): DaydreamEnvironment {
+  const config = ENVIRONMENTS[name];
+  if (!config) {
+    throw new EnvironmentError(`Unknown environment: ${name}`, 400);
+  }
+  if (!config.baseUrl) {
+    throw new Error(`Environment ${name} is not configured`);
+  }
+
+  let apiKey = 'mock';
+  if (config.apiKeyEnvName) {
+    apiKey = Deno.env.get(config.apiKeyEnvName) ?? '';
+    if (!apiKey) {
+      throw new Error(`${config.apiKeyEnvName} is not configured`);
+    }
+  }
+
+  return { name, baseUrl: config.baseUrl, apiKey };
+}
+
+// Whether the request comes from a signed-in staff user (JWT verified with the auth server)
+async function isStaffRequest(req: Request): Promise<boolean> {
+  const authHeader = req.headers.get('Authorization');
+  if (!authHeader) return false;
+
+  const supabaseClient = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+    {
+      global: {
+        headers: { Authorization: authHeader },
+      },
+    }
+  );
+  const { data: { user } } = await supabaseClient.auth.getUser();
+  return STAFF_EMAIL.test(user?.email ?? '');
+}
+
+/**
+ * Environment requested by the caller (prod when not given). Other environments are only
+ * available to staff; anyone else gets an EnvironmentError with status 403
+ */
+export async function resolveDaydreamEnvironment(
+  req: Request,
+  requested: string | undefined
+): Promise<DaydreamEnvironment> {
+  const name = requested || DEFAULT_ENVIRONMENT;
+  if (!ENVIRONMENTS[name]) {
+    throw new EnvironmentError(`Unknown environment: ${name}`, 400);
+  }
+  if (name !== DEFAULT_ENVIRONMENT && !(await isStaffRequest(req))) {
+    throw new EnvironmentError(`Environment ${name} is not allowed`, 403);
+  }
+  return getDaydreamEnvironment(name);
+}
+
+/**
+ * Environments the caller may pick: configured ones, and only prod for non-staff
+ */
+export async function listDaydreamEnvironments(req: Request): Promise<DaydreamEnvironmentOption[]> {
+  const isStaff = await isStaffRequest(req);
+  return Object.entries(ENVIRONMENTS)
+    .filter(([name, config]) => isConfigured(config) && (isStaff || name === DEFAULT_ENVIRONMENT))
+    .map(([name, config]) => ({ name, label: config.label }));
+}
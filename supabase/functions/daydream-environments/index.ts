@@ -0,0 +1,28 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { DEFAULT_ENVIRONMENT, listDaydreamEnvironments } from "../_shared/daydreamEnvironment.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Daydream environments the caller may pick on /capture (names and labels only, never URLs or keys)
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  try {
+    const environments = await listDaydreamEnvironments(req);
+
+    return new Response(JSON.stringify({ environments, default: DEFAULT_ENVIRONMENT }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error in daydream-environments function:', error);
+    return new Response(JSON.stringify({ error: error instanceof Error ? error.message : String(error) }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
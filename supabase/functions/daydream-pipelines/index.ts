@@ -0,0 +1,99 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Same defaults as DEFAULT_STREAMDIFFUSION_PARAMS in src/lib/pipelines.ts, keep them in sync
+const STREAMDIFFUSION = {
+  id: 'streamdiffusion',
+  label: 'StreamDiffusion',
+  description: 'Real-time img2img on SDXL Turbo with depth, canny and tile controlnets',
+  params: {
+    type: 'object',
+    required: ['prompt'],
+    properties: {
+      model_id: {
+        type: 'string',
+        title: 'Model',
+        oneOf: [{ const: 'stabilityai/sdxl-turbo', title: 'SDXL Turbo' }],
+      },
+      prompt: { type: 'string', title: 'Prompt', 'x-multiline': true },
+      negative_prompt: { type: 'string', title: 'Negative prompt' },
+      num_inference_steps: { type: 'integer', title: 'Inference steps', minimum: 1, maximum: 100 },
+      seed: { type: 'integer', title: 'Seed', minimum: 0 },
+      t_index_list: {
+        type: 'array',
+        title: 'Denoising steps',
+        items: { type: 'integer', minimum: 0, maximum: 49 },
+      },
+      controlnets: { type: 'array', title: 'Controlnets' },
+      ip_adapter: {
+        type: 'object',
+        title: 'Style transfer',
+        properties: {
+          enabled: { type: 'boolean', title: 'Enabled' },
+          scale: { type: 'number', title: 'Strength', minimum: 0, maximum: 2, multipleOf: 0.01 },
+        },
+      },
+      ip_adapter_style_image_url: {
+        type: 'string',
+        title: 'Style image',
+        format: 'uri',
+        contentMediaType: 'image/*',
+      },
+    },
+  },
+  defaults: {
+    model_id: 'stabilityai/sdxl-turbo',
+    prompt: 'psychedelia',
+    negative_prompt: 'blurry, low quality, flat, 2d, distorted',
+    num_inference_steps: 50,
+    seed: 42,
+    t_index_list: [6, 12, 18],
+    controlnets: [
+      { enabled: true, model_id: 'xinsir/controlnet-depth-sdxl-1.0', preprocessor: 'depth_tensorrt', preprocessor_params: {}, conditioning_scale: 0.6 },
+      { enabled: true, model_id: 'xinsir/controlnet-canny-sdxl-1.0', preprocessor: 'canny', preprocessor_params: {}, conditioning_scale: 0.3 },
+      { enabled: true, model_id: 'xinsir/controlnet-tile-sdxl-1.0', preprocessor: 'feedback', preprocessor_params: {}, conditioning_scale: 0.2 },
+    ],
+    ip_adapter: { enabled: false, type: 'regular', scale: 0, weight_type: 'linear', insightface_model_name: 'buffalo_l' },
+  },
+};
+
+// Pipelines and their param schemas for the /capture picker (see src/lib/pipelineCatalog.ts for
+// the schema keywords the form understands). More pipelines can be offered without a deploy by
+// setting DAYDREAM_PIPELINE_CATALOG to a JSON array of entries; an entry with an existing id replaces it
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  try {
+    const pipelines = new Map<string, unknown>([[STREAMDIFFUSION.id, STREAMDIFFUSION]]);
+
+    const extra = Deno.env.get('DAYDREAM_PIPELINE_CATALOG');
+    if (extra) {
+      const entries = JSON.parse(extra);
+      if (!Array.isArray(entries)) {
+        throw new Error('DAYDREAM_PIPELINE_CATALOG must be a JSON array');
+      }
+      for (const entry of entries) {
+        if (!entry?.id || !entry?.params) {
+          throw new Error('DAYDREAM_PIPELINE_CATALOG entries need an id and a params schema');
+        }
+        pipelines.set(entry.id, { label: entry.id, defaults: {}, ...entry });
+      }
+    }
+
+    return new Response(JSON.stringify({ pipelines: [...pipelines.values()] }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json', 'Cache-Control': 'public, max-age=300' },
+    });
+  } catch (error) {
+    console.error('Error in daydream-pipelines function:', error);
+    return new Response(JSON.stringify({ error: error instanceof Error ? error.message : String(error) }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -1,5 +1,6 @@
 // Version: 2025-10-18-v4
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { EnvironmentError, resolveDaydreamEnvironment } from "../_shared/daydreamEnvironment.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -14,16 +15,9 @@ serve(async (req) => {
   console.log('[EDGE] daydream-prompt function called (version: 2025-10-12-correct-api-endpoint)');
 
   try {
-    const { streamId, isStaging, ...promptBody } = await req.json();
+    const { streamId, environment, ...promptBody } = await req.json();
 
-    const apiKeyEnvName = isStaging ? 'STAGING_DAYDREAM_API_KEY' : 'DAYDREAM_API_KEY';
-    const DAYDREAM_API_KEY = Deno.env.get(apiKeyEnvName);
-
-    if (!DAYDREAM_API_KEY) {
-      throw new Error(`${apiKeyEnvName} is not configured`);
-    }
-
-    const baseUrl = isStaging ? 'https://api.daydream.monster' : 'https://api.daydream.live';
+    const { baseUrl, apiKey: DAYDREAM_API_KEY } = await resolveDaydreamEnvironment(req, environment);
     if (!streamId) {
       throw new Error('streamId is required');
     }
@@ -64,7 +58,7 @@ serve(async (req) => {
   } catch (error: any) {
     console.error('Error in daydream-prompt function:', error);
     return new Response(JSON.stringify({ error: error.message }), {
-      status: 500,
+      status: error instanceof EnvironmentError ? error.status : 500,
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
   }
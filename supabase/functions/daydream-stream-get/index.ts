@@ -0,0 +1,104 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { EnvironmentError, getDaydreamEnvironment } from "../_shared/daydreamEnvironment.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  try {
+    const { streamId } = await req.json();
+
+    if (!streamId) {
+      throw new Error('streamId is required');
+    }
+
+    // Caller's client, to verify the JWT and get the user
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: { Authorization: req.headers.get('Authorization') ?? '' },
+        },
+      }
+    );
+
+    const { data: { user } } = await supabaseClient.auth.getUser();
+    if (!user) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Service role: daydream_streams has no RLS policies, the owner check is done here
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    // Streams share one Daydream account: only read streams the caller created (see daydream-stream)
+    const { data: owned, error: ownerError } = await supabase
+      .from('daydream_streams')
+      .select('daydream_environment')
+      .eq('stream_id', streamId)
+      .eq('user_id', user.id)
+      .limit(1);
+
+    if (ownerError) {
+      console.error('Database error:', ownerError);
+      throw ownerError;
+    }
+    const stream = owned?.[0];
+    if (!stream) {
+      return new Response(JSON.stringify({ error: 'Stream not found in your streams' }), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // The environment the stream was created in (only staff can create non-prod streams)
+    const { baseUrl, apiKey: DAYDREAM_API_KEY } = getDaydreamEnvironment(stream.daydream_environment);
+
+    // GET /v1/streams/:id - read before resuming a suspended stream (WHIP URL, still exists)
+    const response = await fetch(`${baseUrl}/v1/streams/${streamId}`, {
+      headers: {
+        'Authorization': `Bearer ${DAYDREAM_API_KEY}`,
+      },
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      console.error('[EDGE] Daydream API error:', JSON.stringify(data, null, 2));
+      return new Response(JSON.stringify({
+        error: 'Daydream API Error',
+        daydreamError: data,
+        status: response.status
+      }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { id, output_playback_id, whip_url, created_at } = data;
+    const pipeline = data.pipeline ?? data.pipeline_id;
+
+    return new Response(JSON.stringify({ id, output_playback_id, whip_url, pipeline, created_at }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error in daydream-stream-get function:', error);
+    return new Response(JSON.stringify({ error: error instanceof Error ? error.message : String(error) }), {
+      status: error instanceof EnvironmentError ? error.status : 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -0,0 +1,67 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { EnvironmentError, resolveDaydreamEnvironment } from "../_shared/daydreamEnvironment.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  try {
+    // Caller's client, so RLS limits sessions to their own
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: { Authorization: req.headers.get('Authorization')! },
+        },
+      }
+    );
+
+    const { limit = 20, offset = 0, environment } = await req.json();
+
+    const { name, baseUrl, apiKey: DAYDREAM_API_KEY } = await resolveDaydreamEnvironment(req, environment);
+
+    // Only the caller's streams (from their sessions in this environment), never the whole Daydream account
+    const { data: sessions, error } = await supabaseClient
+      .from('sessions')
+      .select('stream_id')
+      .eq('daydream_environment', name)
+      .order('created_at', { ascending: false })
+      .range(offset, offset + Math.min(limit, 100) - 1);
+
+    if (error) {
+      console.error('Database error:', error);
+      throw error;
+    }
+
+    const results = await Promise.all((sessions ?? []).map(async ({ stream_id }) => {
+      const response = await fetch(`${baseUrl}/v1/streams/${stream_id}`, {
+        headers: {
+          'Authorization': `Bearer ${DAYDREAM_API_KEY}`,
+        },
+      });
+      // Deleted or expired streams are skipped
+      if (!response.ok) return null;
+      const data = await response.json();
+      const { id, output_playback_id, whip_url, created_at } = data;
+      return { id, output_playback_id, whip_url, pipeline: data.pipeline ?? data.pipeline_id, created_at };
+    }));
+
+    return new Response(JSON.stringify({ streams: results.filter(Boolean) }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error in daydream-stream-list function:', error);
+    return new Response(JSON.stringify({ error: error instanceof Error ? error.message : String(error) }), {
+      status: error instanceof EnvironmentError ? error.status : 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -0,0 +1,54 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { EnvironmentError, resolveDaydreamEnvironment } from "../_shared/daydreamEnvironment.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  try {
+    const { streamId, environment } = await req.json();
+
+    const { baseUrl, apiKey: DAYDREAM_API_KEY } = await resolveDaydreamEnvironment(req, environment);
+    if (!streamId) {
+      throw new Error('streamId is required');
+    }
+
+    // GET /v1/streams/:id/status - state, inference fps/last output time, WHEP url
+    const response = await fetch(`${baseUrl}/v1/streams/${streamId}/status`, {
+      headers: {
+        'Authorization': `Bearer ${DAYDREAM_API_KEY}`,
+      },
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      console.error('[EDGE] Daydream API error:', JSON.stringify(data, null, 2));
+      return new Response(JSON.stringify({
+        error: 'Daydream API Error',
+        daydreamError: data,
+        status: response.status
+      }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Polled every second while a stream starts, so no per-call logging of the body
+    return new Response(JSON.stringify(data), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error in daydream-stream-status function:', error);
+    return new Response(JSON.stringify({ error: error instanceof Error ? error.message : String(error) }), {
+      status: error instanceof EnvironmentError ? error.status : 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -1,5 +1,7 @@
 // Version: 2025-10-18-v4
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { EnvironmentError, resolveDaydreamEnvironment } from "../_shared/daydreamEnvironment.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -14,19 +16,29 @@ serve(async (req) => {
   console.log('[EDGE] daydream-stream function called (version: 2025-10-12-correct-api-endpoint)');
 
   try {
-    const body = await req.json();
-    const isStaging = body.isStaging;
-
-    const apiKeyEnvName = isStaging ? 'STAGING_DAYDREAM_API_KEY' : 'DAYDREAM_API_KEY';
-    const DAYDREAM_API_KEY = Deno.env.get(apiKeyEnvName);
+    // Streams are recorded under the caller, who alone may read or delete them afterwards
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: { Authorization: req.headers.get('Authorization') ?? '' },
+        },
+      }
+    );
 
-    if (!DAYDREAM_API_KEY) {
-      throw new Error(`${apiKeyEnvName} is not configured`);
+    const { data: { user } } = await supabaseClient.auth.getUser();
+    if (!user) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
     }
 
+    const body = await req.json();
     const initialParams = body.initialParams;
     const pipeline = body.pipeline || 'streamdiffusion'; // Default to streamdiffusion (the main pipeline)
-    const baseUrl = isStaging ? 'https://api.daydream.monster' : 'https://api.daydream.live';
+    const { name: environment, baseUrl, apiKey: DAYDREAM_API_KEY } = await resolveDaydreamEnvironment(req, body.environment);
 
     console.log(`[EDGE] Creating Daydream stream with pipeline=${pipeline} params=${JSON.stringify(initialParams)}`);
     const createPayload: any = { pipeline };
@@ -48,7 +60,12 @@ serve(async (req) => {
 
     if (!createResponse.ok) {
       console.error('Daydream API error:', streamData);
-      return new Response(JSON.stringify({ error: streamData }), {
+      // Same shape as daydream-prompt, read by the client as a DaydreamApiError
+      return new Response(JSON.stringify({
+        error: 'Daydream API Error',
+        daydreamError: streamData,
+        status: createResponse.status
+      }), {
         status: createResponse.status,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       });
@@ -56,14 +73,36 @@ serve(async (req) => {
 
     const { id, output_playback_id, whip_url } = streamData;
 
-    // Return immediately with stream info
-    return new Response(JSON.stringify({ id, output_playback_id, whip_url }), {
+    // Service role: daydream_streams has no RLS policies
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const { error: ownerError } = await supabase
+      .from('daydream_streams')
+      .insert({ stream_id: id, user_id: user.id, daydream_environment: environment });
+
+    if (ownerError) {
+      console.error('Database error:', ownerError);
+      // Nobody could delete an unowned stream, so don't leave it running
+      await fetch(`${baseUrl}/v1/streams/${id}`, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${DAYDREAM_API_KEY}`,
+        },
+      }).catch((e) => console.error(`[EDGE] Failed to delete unowned stream ${id}:`, e));
+      throw ownerError;
+    }
+
+    // Return immediately with stream info; calls on this stream must name the same environment
+    return new Response(JSON.stringify({ id, output_playback_id, whip_url, environment }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
   } catch (error: any) {
     console.error('Error in daydream-stream function:', error);
     return new Response(JSON.stringify({ error: error.message }), {
-      status: 500,
+      status: error instanceof EnvironmentError ? error.status : 500,
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
   }
@@ -0,0 +1,158 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { getDaydreamEnvironment, type DaydreamEnvironment } from "../_shared/daydreamEnvironment.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Sessions (and orphaned streams) handled per run; a backlog is worked through over the following runs
+const BATCH_SIZE = 50;
+
+// Scheduled (pg_cron, see the session_heartbeat migration): ends the Daydream stream of every
+// session without a heartbeat for JANITOR_STALE_MINUTES and marks the session ended, then ends
+// owned streams (daydream_streams) that got no session within JANITOR_ORPHAN_MINUTES
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  try {
+    const JANITOR_SECRET = Deno.env.get('JANITOR_SECRET');
+    if (!JANITOR_SECRET) {
+      throw new Error('JANITOR_SECRET is not configured');
+    }
+    if (req.headers.get('Authorization') !== `Bearer ${JANITOR_SECRET}`) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const staleMinutes = Number(Deno.env.get('JANITOR_STALE_MINUTES') ?? 5);
+    const cutoff = new Date(Date.now() - staleMinutes * 60_000).toISOString();
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const { data: staleSessions, error } = await supabase
+      .from('sessions')
+      .select('id, stream_id, daydream_environment')
+      .is('ended_at', null)
+      .lt('last_heartbeat_at', cutoff)
+      .order('last_heartbeat_at', { ascending: true })
+      .limit(BATCH_SIZE);
+
+    if (error) {
+      console.error('Database error:', error);
+      throw error;
+    }
+
+    const environments = new Map<string, DaydreamEnvironment>(); // resolved once per run
+
+    // Deletes a Daydream stream; false when it should be retried on the next run
+    const deleteStream = async (streamId: string, environmentName: string): Promise<boolean> => {
+      let environment = environments.get(environmentName);
+      if (!environment) {
+        try {
+          environment = getDaydreamEnvironment(environmentName);
+          environments.set(environmentName, environment);
+        } catch (e) {
+          // Retried once the environment is configured
+          console.error(`[EDGE] No environment for stream ${streamId}:`, e instanceof Error ? e.message : e);
+          return false;
+        }
+      }
+
+      // DELETE /v1/streams/:id; 404 means the stream is already gone (stopped cleanly or expired)
+      const response = await fetch(`${environment.baseUrl}/v1/streams/${streamId}`, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${environment.apiKey}`,
+        },
+      });
+
+      if (!response.ok && response.status !== 404) {
+        const data = await response.json().catch(() => null);
+        console.error(`[EDGE] Failed to delete stream ${streamId}:`, response.status, JSON.stringify(data));
+        return false;
+      }
+      return true;
+    };
+
+    const ended: string[] = [];
+    const deletedStreams: string[] = [];
+    let failed = 0;
+
+    for (const session of staleSessions ?? []) {
+      if (await deleteStream(session.stream_id, session.daydream_environment)) {
+        ended.push(session.id);
+        deletedStreams.push(session.stream_id);
+      } else {
+        failed++;
+      }
+    }
+
+    if (ended.length > 0) {
+      const { error: updateError } = await supabase
+        .from('sessions')
+        .update({ ended_at: new Date().toISOString() })
+        .in('id', ended);
+
+      if (updateError) {
+        console.error('Database error:', updateError);
+        throw updateError;
+      }
+    }
+
+    // Streams that never got a session (tab closed while connecting); streams with a session are
+    // left to the heartbeat sweep above
+    const orphanMinutes = Number(Deno.env.get('JANITOR_ORPHAN_MINUTES') ?? 10);
+    const orphanCutoff = new Date(Date.now() - orphanMinutes * 60_000).toISOString();
+
+    const { data: orphanedStreams, error: streamsError } = await supabase
+      .rpc('orphaned_daydream_streams', { created_before: orphanCutoff, max_rows: BATCH_SIZE });
+
+    if (streamsError) {
+      console.error('Database error:', streamsError);
+      throw streamsError;
+    }
+
+    let orphans = 0;
+    for (const stream of orphanedStreams ?? []) {
+      if (await deleteStream(stream.stream_id, stream.daydream_environment)) {
+        deletedStreams.push(stream.stream_id);
+        orphans++;
+      } else {
+        failed++;
+      }
+    }
+
+    if (deletedStreams.length > 0) {
+      const { error: updateError } = await supabase
+        .from('daydream_streams')
+        .update({ deleted_at: new Date().toISOString() })
+        .in('stream_id', deletedStreams);
+
+      if (updateError) {
+        console.error('Database error:', updateError);
+        throw updateError;
+      }
+    }
+
+    console.log(`[EDGE] session-janitor: ended ${ended.length} stale sessions and ${orphans} streams without a session, ${failed} failed (cutoff ${cutoff})`);
+
+    return new Response(JSON.stringify({ ended: ended.length, orphans, failed }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error in session-janitor function:', error);
+    return new Response(JSON.stringify({ error: error instanceof Error ? error.message : String(error) }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -0,0 +1,138 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const DEFAULT_TTL_SECONDS = 3600;
+const DEFAULT_MAX_GRANTS_PER_HOUR = 20; // a capture session asks once per WHIP connection
+const RATE_LIMIT_WINDOW_MS = 60 * 60 * 1000;
+
+/**
+ * Generate short-lived TURN credentials using the TURN REST API scheme (coturn `use-auth-secret`):
+ * username = "<expiry unix time>:<label>", credential = base64(HMAC-SHA1(secret, username))
+ */
+async function createTurnCredential(secret: string, ttlSeconds: number, label: string) {
+  const expiry = Math.floor(Date.now() / 1000) + ttlSeconds;
+  const username = `${expiry}:${label}`;
+
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-1' },
+    false,
+    ['sign'],
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(username));
+  const credential = btoa(String.fromCharCode(...new Uint8Array(signature)));
+
+  return { username, credential };
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  try {
+    // Extract user from JWT (already verified by Supabase when verify_jwt=true)
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(JSON.stringify({ error: 'Missing authorization header' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const payload = JSON.parse(atob(token.split('.')[1]));
+    const userId = payload.sub;
+
+    // The anon key is a valid JWT too, but it has no user to rate-limit
+    if (!userId) {
+      return new Response(JSON.stringify({ error: 'Invalid token: missing user ID' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const TURN_SECRET = Deno.env.get('TURN_SECRET');
+    const TURN_URLS = Deno.env.get('TURN_URLS'); // comma-separated, e.g. turn:turn.example.com:3478?transport=udp,turns:turn.example.com:443
+
+    if (!TURN_SECRET || !TURN_URLS) {
+      throw new Error('TURN_SECRET and TURN_URLS must be configured');
+    }
+
+    // Service role: grants have no RLS policies
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const maxGrants =
+      parseInt(Deno.env.get('TURN_MAX_GRANTS_PER_HOUR') || '', 10) || DEFAULT_MAX_GRANTS_PER_HOUR;
+    const windowStart = new Date(Date.now() - RATE_LIMIT_WINDOW_MS).toISOString();
+
+    const { count, error: countError } = await supabase
+      .from('turn_credential_grants')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .gte('created_at', windowStart);
+
+    if (countError) {
+      console.error('Database error:', countError);
+      throw countError;
+    }
+
+    if ((count ?? 0) >= maxGrants) {
+      console.warn(`TURN rate limit reached for user ${userId}`);
+      return new Response(JSON.stringify({ error: 'Too many TURN credential requests, try again later' }), {
+        status: 429,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { error: insertError } = await supabase
+      .from('turn_credential_grants')
+      .insert({ user_id: userId });
+
+    if (insertError) {
+      console.error('Database error:', insertError);
+      throw insertError;
+    }
+
+    // Older grants no longer count, drop them so the table stays small
+    const { error: pruneError } = await supabase
+      .from('turn_credential_grants')
+      .delete()
+      .eq('user_id', userId)
+      .lt('created_at', windowStart);
+
+    if (pruneError) {
+      console.warn('Failed to prune old TURN grants:', pruneError);
+    }
+
+    const ttl = parseInt(Deno.env.get('TURN_CREDENTIAL_TTL') || '', 10) || DEFAULT_TTL_SECONDS;
+    const { username, credential } = await createTurnCredential(TURN_SECRET, ttl, userId);
+
+    const iceServers = [
+      {
+        urls: TURN_URLS.split(',').map((url) => url.trim()).filter(Boolean),
+        username,
+        credential,
+      },
+    ];
+
+    return new Response(JSON.stringify({ iceServers, ttl }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error in turn-credentials function:', error);
+    return new Response(JSON.stringify({ error: error instanceof Error ? error.message : String(error) }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -0,0 +1,52 @@
+-- Track live sessions so orphaned Daydream streams can be cleaned up server-side
+--
+-- Capture sends a heartbeat (session-heartbeat edge function) while streaming. The session-janitor
+-- edge function, run on a schedule, deletes the Daydream stream of every session without a heartbeat
+-- for a few minutes (crashed tab, dead phone) and sets ended_at.
+
+-- ============================================================================
+-- 1. COLUMNS
+-- ============================================================================
+
+ALTER TABLE public.sessions
+ADD COLUMN IF NOT EXISTS last_heartbeat_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+ADD COLUMN IF NOT EXISTS ended_at TIMESTAMP WITH TIME ZONE;
+
+-- Existing sessions never sent a heartbeat: the janitor sweeps them (their streams may still be running)
+UPDATE public.sessions SET last_heartbeat_at = created_at WHERE created_at IS NOT NULL;
+
+COMMENT ON COLUMN public.sessions.last_heartbeat_at IS
+  'Last heartbeat from the Capture page while streaming (set by session-heartbeat)';
+COMMENT ON COLUMN public.sessions.ended_at IS
+  'When the session''s Daydream stream was ended by session-janitor. Null while live';
+
+-- Janitor scan: live sessions by heartbeat age
+CREATE INDEX IF NOT EXISTS idx_sessions_live_heartbeat
+  ON public.sessions (last_heartbeat_at)
+  WHERE ended_at IS NULL;
+
+-- ============================================================================
+-- 2. SCHEDULE
+-- ============================================================================
+-- Calls session-janitor every 5 minutes via pg_cron + pg_net. The project URL and the shared
+-- secret (same value as the function's JANITOR_SECRET) are read from Vault:
+--   select vault.create_secret('https://<project>.supabase.co', 'project_url');
+--   select vault.create_secret('<random secret>', 'janitor_secret');
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'session-janitor',
+  '*/5 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/session-janitor',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'janitor_secret')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
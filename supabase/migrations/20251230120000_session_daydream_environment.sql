@@ -0,0 +1,37 @@
+-- Record which Daydream environment (prod, staging, local) a session's stream runs in
+--
+-- Environments are defined in the edge functions (supabase/functions/_shared/daydreamEnvironment.ts)
+-- and anything but prod is staff-only there. The session-janitor ends each stream in its own
+-- environment, and daydream-stream-list only looks up sessions of the requested environment.
+
+-- ============================================================================
+-- 1. COLUMN
+-- ============================================================================
+
+ALTER TABLE public.sessions
+ADD COLUMN IF NOT EXISTS daydream_environment TEXT NOT NULL DEFAULT 'prod';
+
+COMMENT ON COLUMN public.sessions.daydream_environment IS
+  'Daydream environment of the session''s stream (prod unless picked by staff on /capture)';
+
+-- ============================================================================
+-- 2. INSERT POLICY
+-- ============================================================================
+-- Same staff check as the edge functions, so a session can't claim a non-prod environment
+-- (which would keep the janitor from ending its prod stream)
+
+DROP POLICY IF EXISTS "Authenticated users can create sessions" ON public.sessions;
+
+CREATE POLICY "Authenticated users can create sessions" ON public.sessions
+  FOR INSERT
+  WITH CHECK (
+    auth.uid() IS NOT NULL AND
+    auth.uid() = user_id AND
+    (
+      daydream_environment = 'prod' OR
+      (auth.jwt() ->> 'email') ~ '@livepeer\.(org|com)$'
+    )
+  );
+
+COMMENT ON POLICY "Authenticated users can create sessions" ON public.sessions IS
+  'Users can only create sessions for themselves, and only staff can record a non-prod environment';
@@ -0,0 +1,27 @@
+-- Log TURN credentials handed out by the turn-credentials edge function, to rate-limit them per user
+--
+-- The function counts a user's grants over the last hour (service role) and answers 429 past the
+-- limit. Rows older than that window are pruned by the function itself.
+
+-- ============================================================================
+-- 1. TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.turn_credential_grants (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE public.turn_credential_grants IS
+  'TURN credentials issued by turn-credentials, one row per grant (for the per-user rate limit)';
+
+CREATE INDEX IF NOT EXISTS idx_turn_credential_grants_user_created
+  ON public.turn_credential_grants (user_id, created_at);
+
+-- ============================================================================
+-- 2. RLS
+-- ============================================================================
+-- No policies: only the edge function (service role) reads and writes grants
+
+ALTER TABLE public.turn_credential_grants ENABLE ROW LEVEL SECURITY;
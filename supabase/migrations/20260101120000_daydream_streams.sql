@@ -0,0 +1,67 @@
+-- Record who created each Daydream stream, so only its owner can read or delete it
+--
+-- Streams share one Daydream account per environment. daydream-stream inserts a row (service role)
+-- as soon as Daydream creates the stream, before Capture has a session row for it;
+-- daydream-stream-get and daydream-stream-delete check the caller against it. The session-janitor
+-- also ends owned streams that never got a session (tab closed while connecting).
+
+-- ============================================================================
+-- 1. TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.daydream_streams (
+  stream_id TEXT PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  daydream_environment TEXT NOT NULL DEFAULT 'prod',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  deleted_at TIMESTAMP WITH TIME ZONE
+);
+
+COMMENT ON TABLE public.daydream_streams IS
+  'Daydream streams created through daydream-stream, with their owner and environment';
+COMMENT ON COLUMN public.daydream_streams.deleted_at IS
+  'When the stream was deleted (daydream-stream-delete or session-janitor). Null while it may be running';
+
+-- Janitor scan: streams not deleted yet, by age
+CREATE INDEX IF NOT EXISTS idx_daydream_streams_live_created
+  ON public.daydream_streams (created_at)
+  WHERE deleted_at IS NULL;
+
+-- ============================================================================
+-- 2. BACKFILL
+-- ============================================================================
+-- Streams created before this migration are owned by the user of their (first) session
+
+INSERT INTO public.daydream_streams (stream_id, user_id, daydream_environment, created_at, deleted_at)
+SELECT DISTINCT ON (stream_id) stream_id, user_id, daydream_environment, COALESCE(created_at, now()), ended_at
+FROM public.sessions
+ORDER BY stream_id, created_at ASC
+ON CONFLICT (stream_id) DO NOTHING;
+
+-- ============================================================================
+-- 3. ORPHAN SCAN
+-- ============================================================================
+-- Streams not deleted yet that never got a session, oldest first (read by session-janitor;
+-- streams with a session are ended by the heartbeat sweep instead)
+
+CREATE OR REPLACE FUNCTION public.orphaned_daydream_streams(created_before TIMESTAMP WITH TIME ZONE, max_rows INTEGER)
+RETURNS SETOF public.daydream_streams AS $$
+  SELECT ds.*
+  FROM public.daydream_streams ds
+  WHERE ds.deleted_at IS NULL
+    AND ds.created_at < created_before
+    AND NOT EXISTS (SELECT 1 FROM public.sessions s WHERE s.stream_id = ds.stream_id)
+  ORDER BY ds.created_at ASC
+  LIMIT max_rows;
+$$ LANGUAGE sql STABLE;
+
+REVOKE EXECUTE ON FUNCTION public.orphaned_daydream_streams(TIMESTAMP WITH TIME ZONE, INTEGER) FROM PUBLIC, anon, authenticated;
+
+CREATE INDEX IF NOT EXISTS idx_sessions_stream_id ON public.sessions (stream_id);
+
+-- ============================================================================
+-- 4. RLS
+-- ============================================================================
+-- No policies: only the edge functions (service role) read and write ownership
+
+ALTER TABLE public.daydream_streams ENABLE ROW LEVEL SECURITY;